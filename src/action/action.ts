@@ -3,6 +3,7 @@ import GameElement from '../board/element.js';
 import Piece from '../board/piece.js';
 import ElementCollection from '../board/element-collection.js';
 import { n } from '../utils.js';
+import { serializeArg } from './utils.js';
 
 import type { ResolvedSelection, BoardQueryMulti } from './selection.js';
 import type { Game, PieceGrid } from '../board/index.js';
@@ -97,23 +98,38 @@ export default class Action<A extends Record<string, Argument> = NonNullable<unk
   selections: Selection[] = [];
   moves: ((args: Record<string, Argument>) => any)[] = [];
   condition?: ((args: A) => boolean) | boolean;
+  undo?: 'always' | 'until-reveal' | 'never';
+  limit?: {uses: number, per: string};
   messages: {text: string, args?: Record<string, Argument> | ((a: A) => Record<string, Argument>), position?: number}[] = [];
   order: ('move' | 'message')[] = [];
   mutated = false;
 
   gameManager: GameManager;
+  player?: Player; // the player this action was created for
 
-  constructor({ prompt, description, condition }: {
+  constructor({ prompt, description, condition, undo, limit }: {
     prompt?: string,
     description?: string,
     condition?: ((args: A) => boolean) | boolean,
+    undo?: 'always' | 'until-reveal' | 'never',
+    limit?: {uses: number, per: string},
   }) {
     this.prompt = prompt;
     this.description = description;
     this.condition = condition;
+    this.undo = undo;
+    this.limit = limit;
+  }
+
+  // the number of times the player may still take this action before its limit
+  // is reached, or undefined if it has no limit
+  usesLeft(): number | undefined {
+    if (!this.limit || !this.player) return;
+    return Math.max(0, this.limit.uses - this.gameManager.usesOf(this.name!, this.player, this.limit.per));
   }
 
   isPossible(args: A): boolean {
+    if (this.usesLeft() === 0) return false;
     return typeof this.condition === 'function' ? this.condition(args) : this.condition ?? true;
   }
 
@@ -123,13 +139,14 @@ export default class Action<A extends Record<string, Argument> = NonNullable<unk
   // return array of follow-up selections if incomplete
   // skipping/expanding is very complex and this method runs all the rules for what should/must be combined, either as additional selections or as forced args
   // skippable options will still appear in order to present the choices to the user to select that tree. This will be the final selection if no other selection turned skipping off
-  // TODO memoize
   _getPendingMoves(args: Record<string, Argument>, debug?: ActionDebug): PendingMove[] | undefined {
     if (debug) {
       debug[this.name!] = { args: {} };
       for (const arg of Object.keys(args)) debug[this.name!].args[arg] = 'sel';
     }
+    const branchesExplored = this.gameManager?.branchesExplored;
     const moves = this._getPendingMovesInner(args, debug);
+    if (debug && this.gameManager) debug[this.name!].branches = this.gameManager.branchesExplored - branchesExplored;
     // resolve any combined selections now with only args up until first choice
     if (moves?.length) {
       for (const move of moves) {
@@ -172,6 +189,7 @@ export default class Action<A extends Record<string, Argument> = NonNullable<unk
   _getPendingMovesInner(args: Record<string, Argument>, debug?: ActionDebug): PendingMove[] | undefined {
     let selection = this._nextSelection(args);
     if (!selection) return [];
+    if (this.gameManager) this.gameManager.branchesExplored += 1;
 
     const move = {
       name: this.name!,
@@ -190,9 +208,12 @@ export default class Action<A extends Record<string, Argument> = NonNullable<unk
     if (!selection.isUnbounded()) {
       let possibleOptions: Argument[] = [];
       let pruned = false;
-      let pendingMoves: PendingMove[] = [];
       let hasCompleteMove = false
-      for (const option of selection.options()) {
+      const skipAlways = selection.skipIf === 'always' || selection.skipIf === true;
+      // choices of several options are not pruned, so exploring stops once
+      // enough are found to know whether to skip
+      const enough = !selection.isMulti() || skipAlways ? Infinity : (selection.skipIf === 'only-one' ? 2 : 1);
+      for (const option of selection.eachOption()) {
         const allArgs = {...args, [selection.name]: option};
         if (selection.validation && !selection.isMulti()) {
           const error = this._withDecoratedArgs(allArgs as A, args => selection!.error(args))
@@ -202,13 +223,12 @@ export default class Action<A extends Record<string, Argument> = NonNullable<unk
             continue;
           }
         }
-        const submoves = this._getPendingMovesInner(allArgs, debug);
-        if (submoves === undefined) {
+        if (!this._isPossibleWith(allArgs, debug)) {
           pruned = true;
         } else {
           possibleOptions.push(option);
-          hasCompleteMove ||= submoves.length === 0;
-          pendingMoves = pendingMoves.concat(submoves);
+          if (skipAlways) hasCompleteMove ||= !this._nextSelection(allArgs);
+          if (possibleOptions.length === enough) break;
         }
       }
       if (!possibleOptions.length) {
@@ -223,14 +243,17 @@ export default class Action<A extends Record<string, Argument> = NonNullable<unk
 
       // return the next selection(s) if skipIf, provided it exists for all possible choices
       // special case: do not skip "apparent" choices in group even if they are ultimately forced, in order to best present the limited options
-      if (pendingMoves.length && (
-        ((selection.skipIf === 'always' || selection.skipIf === true) && !hasCompleteMove) ||
+      if (
+        (skipAlways && !hasCompleteMove) ||
           selection.skipIf === 'only-one' && possibleOptions.length === 1 && (!selection.clientContext?.combineWith || selection.options().length <= 1)
-      )) {
-        if (debug) {
-          debug[this.name!].args[selection.name] = selection.skipIf === true ? 'skip' : selection.skipIf;
+      ) {
+        const pendingMoves = possibleOptions.flatMap(option => this._getPendingMovesInner({...args, [selection!.name]: option}, debug) ?? []);
+        if (pendingMoves.length) {
+          if (debug) {
+            debug[this.name!].args[selection.name] = selection.skipIf === true ? 'skip' : selection.skipIf as 'always' | 'only-one';
+          }
+          return pendingMoves;
         }
-        return pendingMoves;
       }
     }
     if (debug && (debug[this.name!].args[selection.name] ?? 'imp') === 'imp') {
@@ -240,6 +263,39 @@ export default class Action<A extends Record<string, Argument> = NonNullable<unk
     return [move];
   }
 
+  /**
+   * whether a partial arg list can be completed, stopping as soon as a
+   * complete move is found. the result is kept until the game state changes.
+   * @internal
+   */
+  _isPossibleWith(args: Record<string, Argument>, debug?: ActionDebug): boolean {
+    const explore = () => {
+      const selection = this._nextSelection(args);
+      if (!selection) return true;
+      if (this.gameManager) this.gameManager.branchesExplored += 1;
+      if (!selection.isPossible()) {
+        if (debug) {
+          debug[this.name!].args[selection.name] ??= 'imp';
+        }
+        return false;
+      }
+      if (selection.isUnbounded()) return true;
+      for (const option of selection.eachOption()) {
+        const allArgs = {...args, [selection.name]: option};
+        if (selection.validation && !selection.isMulti() && this._getError(selection, allArgs as A)) continue;
+        if (this._isPossibleWith(allArgs, debug)) return true;
+      }
+      if (debug) {
+        debug[this.name!].args[selection.name] = 'tree';
+      }
+      return false;
+    }
+    // debugging explores every branch to describe them
+    if (!this.gameManager || debug) return explore();
+    const key = JSON.stringify([this.name, this.player?.position, Object.entries(args).map(([k, v]) => [k, serializeArg(v, false)])]);
+    return this.gameManager.isPossibleMove(key, explore);
+  }
+
   /**
    * given a partial arg list, returns a selection object for continuation if one exists.
    * @internal
@@ -258,10 +314,11 @@ export default class Action<A extends Record<string, Argument> = NonNullable<unk
   }
 
   /**
-   * process this action with supplied args. returns error if any
+   * Check that args are valid and complete this action, without processing it.
+   * Any forced args are added. Returns an error if not.
    * @internal
    */
-  _process(player: Player, args: Record<string, Argument>): string | undefined {
+  _validate(args: Record<string, Argument>): string | undefined {
     // truncate invalid args - is this needed?
     let error: string | undefined = undefined;
     if (!this.isPossible(args as A)) return `${this.name} action not possible`;
@@ -290,6 +347,15 @@ export default class Action<A extends Record<string, Argument> = NonNullable<unk
         return error || 'incomplete action';
       }
     }
+  }
+
+  /**
+   * process this action with supplied args. returns error if any
+   * @internal
+   */
+  _process(player: Player, args: Record<string, Argument>): string | undefined {
+    const error = this._validate(args);
+    if (error) return error;
 
     let moveIndex = 0;
     let messageIndex = 0;
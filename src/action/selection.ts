@@ -1,5 +1,5 @@
 import { range } from '../utils.js';
-import { combinations } from './utils.js';
+import { combinations, eachCombination } from './utils.js';
 import GameElement from '../board/element.js';
 import Player from '../player/player.js';
 
@@ -253,6 +253,16 @@ export default class Selection {
     return [];
   }
 
+  // The same options, generated lazily so that choices of several elements can
+  // be explored without listing every combination
+  *eachOption(this: ResolvedSelection): Generator<Argument, void, undefined> {
+    if (this.isMulti() && !this.isUnbounded()) {
+      yield* eachCombination(this.boardChoices || this.choiceValues(), this.min ?? 1, this.max ?? Infinity);
+    } else {
+      yield* this.options();
+    }
+  }
+
   isUnbounded(this: ResolvedSelection): boolean {
     if (this.type === 'number') return this.max === undefined || this.max - (this.min ?? 1) > 100;
     return this.type === 'text' || this.type === 'button' || this.type === 'place';
@@ -58,7 +58,7 @@ export const deserializeSingleArg = (arg: SerializedSingleArg, game: BaseGame):
   } else if (arg.slice(0, 4) === '$el[') {
     deser = game.atBranch(arg.slice(4, -1));
   } else if (arg.slice(0, 5) === '$eid[') {
-    deser = game.atID(parseInt(arg.slice(5, -1)));
+    deser = game.atID(parseInt(arg.slice(5, -1))) ?? game.pile.atID(parseInt(arg.slice(5, -1)));
   } else {
     return arg;
   }
@@ -79,17 +79,18 @@ export const deserialize = (arg: any, game: BaseGame): Serializable => {
   throw Error(`unable to deserialize ${arg}`);
 }
 
-export const combinations = <T>(set: T[], min: number, max: number): T[][] => {
-  const combos = [] as T[][];
-  const poss = (curr: T[], i: number) => {
+export const combinations = <T>(set: T[], min: number, max: number): T[][] => [...eachCombination(set, min, max)];
+
+// lazily generate the same combinations, in the same order
+export function* eachCombination<T>(set: T[], min: number, max: number): Generator<T[]> {
+  function* poss(curr: T[], i: number): Generator<T[]> {
     if (set.length - i < min - curr.length) return;
-    if (curr.length >= min) combos.push(curr);
+    if (curr.length >= min) yield curr;
     if (curr.length < max) {
       for (let j = i; j !== set.length; j++) {
-        poss(curr.concat([set[j]]), j + 1);
+        yield* poss(curr.concat([set[j]]), j + 1);
       }
     }
   }
-  poss([], 0);
-  return combos;
+  yield* poss([], 0);
 }
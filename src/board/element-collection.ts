@@ -278,41 +278,25 @@ export default class ElementCollection<T extends GameElement = GameElement> exte
    * @category Visibility
    */
   showToAll(this: ElementCollection<Piece<BaseGame>>) {
-    for (const el of this) {
-      delete(el._visible);
-    }
+    for (const el of this) el.showToAll();
   }
 
   /**
-   * Show these elements only to the given player
+   * Show these elements only to the given player, or to the players on the
+   * given team
    * @category Visibility
    */
-  showOnlyTo(this: ElementCollection<Piece<BaseGame>>, player: Player | number) {
-    if (typeof player !== 'number') player = player.position;
-    for (const el of this) {
-      el._visible = {
-        default: false,
-        except: [player]
-      };
-    }
+  showOnlyTo(this: ElementCollection<Piece<BaseGame>>, player: Player | number | string) {
+    for (const el of this) el.showOnlyTo(player);
   }
 
   /**
-   * Show these elements to the given players without changing it's visibility to
-   * any other players.
+   * Show these elements to the given players, or to the players on the given
+   * team, without changing it's visibility to any other players.
    * @category Visibility
    */
-  showTo(this: ElementCollection<Piece<BaseGame>>, ...player: Player[] | number[]) {
-    if (typeof player[0] !== 'number') player = (player as Player[]).map(p => p.position);
-    for (const el of this) {
-      if (el._visible === undefined) continue;
-      if (el._visible.default) {
-        if (!el._visible.except) continue;
-        el._visible.except = el._visible.except.filter(i => !(player as number[]).includes(i));
-      } else {
-        el._visible.except = Array.from(new Set([...(el._visible.except instanceof Array ? el._visible.except : []), ...(player as number[])]))
-      }
-    }
+  showTo(this: ElementCollection<Piece<BaseGame>>, ...player: Player[] | number[] | [team: string]) {
+    for (const el of this) el.showTo(...player);
   }
 
   /**
@@ -320,32 +304,19 @@ export default class ElementCollection<T extends GameElement = GameElement> exte
    * @category Visibility
    */
   hideFromAll(this: ElementCollection<Piece<BaseGame>>) {
-    for (const el of this) {
-      el._visible = {default: false};
-    }
+    for (const el of this) el.hideFromAll();
   }
 
   /**
-   * Hide these elements from the given players without changing it's visibility to
-   * any other players.
+   * Hide these elements from the given players, or from the players on the
+   * given team, without changing it's visibility to any other players.
    * @category Visibility
    */
-  hideFrom(this: ElementCollection<Piece<BaseGame>>, ...player: Player[] | number[]) {
-    if (typeof player[0] !== 'number') player = (player as Player[]).map(p => p.position);
-    for (const el of this) {
-      if (el._visible?.default === false && !el._visible.except) continue;
-      if (el._visible === undefined || el._visible.default === true) {
-        el._visible = {
-          default: true,
-          except: Array.from(new Set([...(el._visible?.except instanceof Array ? el._visible.except : []), ...(player as number[])]))
-        };
-      } else {
-        if (!el._visible.except) continue;
-        el._visible.except = el._visible.except.filter(i => !(player as number[]).includes(i));
-      }
-    }
+  hideFrom(this: ElementCollection<Piece<BaseGame>>, ...player: Player[] | number[] | [team: string]) {
+    for (const el of this) el.hideFrom(...player);
   }
 
+
   /**
    * Sorts this collection by some {@link Sorter}.
    * @category Structure
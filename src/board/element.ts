@@ -797,7 +797,7 @@ export default class GameElement<G extends BaseGame = BaseGame, P extends BasePl
   atBranch(b: string) {
     let branch = b.split('/');
     let index = parseInt(branch[0]);
-    let node = index === 0 ? this._ctx.top : this._ctx.removed._t.children[index - 1];
+    let node = index === 0 ? this._ctx.top : this._ctx.removed;
     branch.shift();
     while (branch[0] !== undefined) {
       node = node._t.children[parseInt(branch[0])];
@@ -951,7 +951,8 @@ export default class GameElement<G extends BaseGame = BaseGame, P extends BasePl
 
   /**
    * JSON representation
-   * @param seenBy - optional player position viewing the game
+   * @param seenBy - optional player position viewing the game, or 0 for a
+   * spectator
    * @internal
    */
   toJSON(seenBy?: number) {
@@ -970,11 +971,7 @@ export default class GameElement<G extends BaseGame = BaseGame, P extends BasePl
     if (json._id !== this._t.ref) json._ref = this._t.ref;
     // do not expose moves within deck (shuffles)
     if (seenBy !== undefined && this._t.wasRef !== undefined && this.isVisibleTo(seenBy)) json._wasRef = this._t.wasRef;
-    if (this._t.children.length && (
-      !seenBy || !('_screen' in this) || this._screen === undefined ||
-        (this._screen === 'all-but-owner' && this.owner?.position === seenBy) ||
-        (this._screen instanceof Array && this._screen.includes(this.owner?.position))
-    )) {
+    if (this._t.children.length && (seenBy === undefined || !this._isScreenedFrom(seenBy))) {
       json.children = Array.from(this._t.children.map(c => c.toJSON(seenBy)));
     }
 
@@ -989,6 +986,32 @@ export default class GameElement<G extends BaseGame = BaseGame, P extends BasePl
     return json;
   }
 
+  /**
+   * Whether the contents of this element are hidden from the given player. A
+   * spectator (position 0) cannot see inside anything screened from any player.
+   * @internal
+   */
+  _isScreenedFrom(seenBy: number): boolean {
+    if (!('_screen' in this) || this._screen === undefined) return false;
+    if (seenBy === 0) return this.game.players.some(p => this._isScreenedFrom(p.position));
+    if (this._screen === 'all-but-owner') return this.owner?.position !== seenBy;
+    if (this._screen instanceof Array) return this._screen.includes(seenBy);
+    return true;
+  }
+
+  /**
+   * Whether this element appears in the given player's view of the game, i.e.
+   * it is visible to them and not inside anything screened from them
+   * @internal
+   */
+  _isSeenBy(seenBy: number) {
+    if (!this.isVisibleTo(seenBy)) return false;
+    for (let parent = this._t.parent; parent; parent = parent._t.parent) {
+      if (parent._isScreenedFrom(seenBy)) return false;
+    }
+    return true;
+  }
+
   createChildrenFromJSON(childrenJSON: ElementJSON[], branch: string) {
     // preserve previous children references
     const childrenRefs = [...this._t.children];
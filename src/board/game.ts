@@ -2,7 +2,7 @@ import Space from './space.js'
 import { Action, Argument, ActionStub } from '../action/index.js';
 import { deserializeObject } from '../action/utils.js';
 import Flow from '../flow/flow.js';
-import { n } from '../utils.js';
+import { createMessage } from '../scrub.js';
 import { PlayerCollection } from '../player/index.js';
 import {
   ActionStep,
@@ -13,10 +13,16 @@ import {
   EveryPlayer,
   IfElse,
   SwitchCase,
+  ReactionWindow,
+  Auction,
+  SealedAuction,
+  Draft,
+  PlayTrick,
   Do,
 } from '../flow/index.js';
 
 import type { BasePlayer } from '../player/player.js';
+import type Piece from './piece.js';
 import type {
   default as GameElement,
   ElementJSON,
@@ -26,6 +32,8 @@ import type {
   ElementUI,
 } from './element.js';
 import type { FlowStep } from '../flow/flow.js';
+import type { GameEvent, RecordedGameEvent } from '../events.js';
+import type { Effect } from '../game-manager.js';
 import type { Serializable } from '../action/utils.js';
 
 /**
@@ -173,6 +181,11 @@ export default class Game<G extends BaseGame = BaseGame, P extends BasePlayer =
    * - {@link everyPlayer}
    * - {@link ifElse}
    * - {@link switchCase}
+   * - {@link reactionWindow}
+   * - {@link auction}
+   * - {@link sealedAuction}
+   * - {@link draft}
+   * - {@link playTrick}
    * @category Definition
    */
   defineFlow(...flow: FlowStep[]) {
@@ -193,6 +206,31 @@ export default class Game<G extends BaseGame = BaseGame, P extends BasePlayer =
     this._ctx.gameManager.flows[name].gameManager = this._ctx.gameManager;
   }
 
+  /**
+   * Declare actions that players may take at any point during a flow, without
+   * listing them in every {@link playerActions}, e.g. trading or using a
+   * once-per-turn ability. Whenever a player is at a step of this flow, these
+   * actions are allowed alongside the actions of the step. Taking one does not
+   * complete the step, and the player continues to choose from the step's
+   * actions afterwards. A free action may enter a subflow with {@link
+   * Do|Do.subflow}.
+   *
+   * Free actions can also be declared for only part of a flow, using the
+   * `freeActions` option of a loop, {@link eachPlayer} or {@link everyPlayer}.
+   *
+   * @param actions - The actions, each either the name of an action or an object
+   * with the `name`, `prompt` and `args`, as in {@link playerActions}
+   * @param subflow - The name of the subflow. If omitted, these are declared for
+   * the main flow. The flow must already be defined.
+   * @category Definition
+   */
+  defineFreeActions(actions: ConstructorParameters<typeof Flow>[0]['freeActions'] & object, subflow?: string) {
+    if (this._ctx.gameManager.phase !== 'new') throw Error('cannot call defineFreeActions once started');
+    const flow = this._ctx.gameManager.flows[subflow ?? '__main__'];
+    if (!flow) throw Error(`No such flow: ${subflow ?? 'main'}. Free actions must be declared after the flow.`);
+    flow.freeActions = actions.map(a => typeof a === 'string' ? {name: a} : a);
+  }
+
   /**
    * Define your game's actions.
    * @param actions - An object consisting of actions where the key is the name
@@ -206,6 +244,32 @@ export default class Game<G extends BaseGame = BaseGame, P extends BasePlayer =
     this._ctx.gameManager.actions = actions;
   }
 
+  /**
+   * Define how each player is scored while the game is in progress. The score
+   * and summary of every player are updated after each move and shown with
+   * their {@link ProfileBadge}.
+   *
+   * Scores are calculated separately for each player and for spectators. Use
+   * {@link Piece#isVisible} to leave out anything hidden from the player
+   * viewing the scores. The scores that everyone can see are also reported to
+   * the lobby.
+   *
+   * @param scoring.score - A function returning the current score of a player
+   * @param scoring.summary - A function returning a short description of a
+   * player's standing, e.g. `"3 sets, 2 cards in hand"`
+   *
+   * @example
+   * game.defineScoring({
+   *   score: player => player.points,
+   *   summary: player => `${player.my('hand')!.all(Card).length} cards in hand`,
+   * });
+   *
+   * @category Definition
+   */
+  defineScoring(scoring: {score?: (player: P) => number, summary?: (player: P) => string}) {
+    this._ctx.gameManager.scoring = scoring;
+  }
+
   /**
    * Retrieve the selected setting value for a setting defined in {@link
    * render}.
@@ -254,6 +318,21 @@ export default class Game<G extends BaseGame = BaseGame, P extends BasePlayer =
    * an object with any arguments passed to this action, e.g. from {@link
    * followUp}.
    *
+   * @param definition.undo - One of 'always', 'until-reveal' or 'never'
+   * (Default 'until-reveal'). Determines whether the player may take back this
+   * action after it is processed. 'until-reveal' allows the player to undo
+   * until the action, or the flow that follows it, reveals any hidden
+   * information or uses randomness, e.g. shuffling, rolling dice or showing a
+   * hidden piece. This can be overridden by the `undo` option in {@link
+   * playerActions}.
+   *
+   * @param definition.limit - Limits how many times each player may take this
+   * action, e.g. `{ uses: 1, per: 'turn' }` for a once-per-turn ability. `per`
+   * is the name of a loop, and uses are counted again from zero on each
+   * iteration of that loop. If no loop has the name, 'turn' means each
+   * iteration of the innermost {@link eachPlayer} and 'round' means each pass
+   * of that {@link eachPlayer} through all of the players.
+   *
    * @example
    * action({
    *   prompt: 'Flip one of your cards'
@@ -269,6 +348,8 @@ export default class Game<G extends BaseGame = BaseGame, P extends BasePlayer =
     prompt?: string,
     description?: string,
     condition?: Action<A>['condition'],
+    undo?: Action<A>['undo'],
+    limit?: Action<A>['limit'],
   } = {}) {
     return new Action<A>(definition);
   }
@@ -322,6 +403,11 @@ export default class Game<G extends BaseGame = BaseGame, P extends BasePlayer =
    * - {@link everyPlayer}
    * - {@link ifElse}
    * - {@link switchCase}
+   * - {@link reactionWindow}
+   * - {@link auction}
+   * - {@link sealedAuction}
+   * - {@link draft}
+   * - {@link playTrick}
    * @category Definition
    */
   flowCommands = {
@@ -334,23 +420,224 @@ export default class Game<G extends BaseGame = BaseGame, P extends BasePlayer =
     everyPlayer: (options: ConstructorParameters<typeof EveryPlayer<P>>[0]) => this.flowGuard('everyplayer') && new EveryPlayer<P>(options),
     ifElse: (options: ConstructorParameters<typeof IfElse>[0]) => this.flowGuard('ifelse') && new IfElse(options),
     switchCase: <T extends Serializable>(options: ConstructorParameters<typeof SwitchCase<T>>[0]) => this.flowGuard('switchCase') && new SwitchCase<T>(options),
+    reactionWindow: (options: ConstructorParameters<typeof ReactionWindow<P>>[0]) => this.flowGuard('reactionWindow') && new ReactionWindow<P>(options),
+    auction: (options: ConstructorParameters<typeof Auction<P>>[0]) => this.flowGuard('auction') && new Auction<P>(options),
+    sealedAuction: (options: ConstructorParameters<typeof SealedAuction<P>>[0]) => this.flowGuard('sealedAuction') && new SealedAuction<P>(options),
+    draft: (options: ConstructorParameters<typeof Draft<P>>[0]) => this.flowGuard('draft') && new Draft<P>(options),
+    playTrick: <T extends Piece<any>>(options: ConstructorParameters<typeof PlayTrick<P, T>>[0]) => this.flowGuard('playTrick') && new PlayTrick<P, T>(options),
   };
 
   /**
    * End the game
    *
-   * @param winner - a player or players that are the winners of the game. In a
-   * solo game if no winner is provided, this is considered a loss.
+   * @param winner - a player or players that are the winners of the game, or
+   * the name of the winning team. In a solo game if no winner is provided, this
+   * is considered a loss.
    * @param announcement - an optional announcement from {@link render} to
    * replace the standard boardzilla announcement.
    * @category Game Management
    */
-  finish(winner?: P | P[], announcement?: string) {
+  finish(winner?: P | P[] | string, announcement?: string) {
+    if (typeof winner === 'string') winner = this.players.onTeam(winner);
+    this._ctx.gameManager.addEvent({ type: 'finish', winners: winner ? (winner instanceof Array ? winner : [winner]) : [] });
     this._ctx.gameManager.phase = 'finished';
     if (winner) this._ctx.gameManager.winner = winner instanceof Array ? winner : [winner];
     this._ctx.gameManager.announcements.push(announcement ?? '__finish__');
   }
 
+  /**
+   * End the game with a ranking of every player, by score or by giving the
+   * placements directly. Players that remain tied share a placement. Any
+   * players left unranked are placed after the ranked players, with those that
+   * were eliminated (see {@link eliminate}) last, most recently eliminated
+   * first. The players in first place are the winners.
+   *
+   * @param options.score - The final score of each player. Players with the
+   * highest score are placed first.
+   * @param options.tiebreakers - A list of functions that break ties between
+   * players with the same score, in order. The higher value wins the tie.
+   * @param options.lowestScoreWins - Place players with the lowest score first
+   * instead
+   * @param options.placements - The players in order of placement, first place
+   * first. Tied players are given as an array. Any players not listed are
+   * ranked by `score` if provided.
+   * @param options.summary - A short description of each player's result to
+   * show with their final score
+   * @param announcement - an optional announcement from {@link render} to
+   * replace the standard boardzilla scoreboard.
+   *
+   * @example
+   * game.finishRanked({
+   *   score: player => player.points,
+   *   tiebreakers: [player => player.coins],
+   * });
+   *
+   * @category Game Management
+   */
+  finishRanked(options: {
+    score?: (player: P) => number,
+    tiebreakers?: ((player: P) => number)[],
+    lowestScoreWins?: boolean,
+    placements?: (P | P[])[],
+    summary?: (player: P) => string,
+  }, announcement?: string) {
+    const { score, tiebreakers = [], lowestScoreWins, placements, summary } = options;
+    const groups = placements?.map(p => p instanceof Array ? p : [p]) ?? [];
+    const isRanked = (player: P) => groups.some(group => group.includes(player));
+
+    if (score) {
+      const values = (player: P) => [lowestScoreWins ? -score(player) : score(player), ...tiebreakers.map(t => t(player))];
+      const compare = (v1: number[], v2: number[]) => v1.reduce((c, v, i) => c || v2[i] - v, 0);
+      const scored = this.players.active().filter(p => !isRanked(p)).map(player => ({ player, values: values(player) }));
+      scored.sort((s1, s2) => compare(s1.values, s2.values));
+      scored.forEach((s, i) => {
+        if (i > 0 && compare(scored[i - 1].values, s.values) === 0) {
+          groups[groups.length - 1].push(s.player);
+        } else {
+          groups.push([s.player]);
+        }
+      });
+    }
+
+    const unranked = this.players.filter(p => !isRanked(p));
+    if (unranked.some(p => !p.eliminated)) groups.push(unranked.filter(p => !p.eliminated));
+    groups.push(...unranked.filter(p => p.eliminated).sort((p1, p2) => p2.eliminated! - p1.eliminated!).map(p => [p]));
+
+    let place = 1;
+    this._ctx.gameManager.ranking = [];
+    for (const group of groups) {
+      for (const player of group) {
+        this._ctx.gameManager.ranking.push({
+          player,
+          place,
+          ...(score && { score: score(player) }),
+          ...(summary && { summary: summary(player) }),
+        });
+      }
+      place += group.length;
+    }
+    this.finish(groups[0] ?? [], announcement);
+  }
+
+  /**
+   * Eliminate a player from the game. Eliminated players are skipped by {@link
+   * PlayerCollection#next}, {@link PlayerCollection#after}, {@link
+   * eachPlayer}, {@link everyPlayer} and {@link playerActions}, and the order of
+   * elimination is recorded in {@link Player#eliminated}. Any handler provided
+   * to {@link onEliminate} is then called, e.g. to remove their pieces. This
+   * does not end the game.
+   *
+   * @category Game Management
+   */
+  eliminate(player: P) {
+    if (player.eliminated) return;
+    player.eliminated = this.players.eliminated().length + 1;
+    this._ctx.gameManager.addEvent({ type: 'elimination', eliminated: player });
+    this._ctx.gameManager.eliminationHandler?.(player);
+  }
+
+  /**
+   * Provide a function to be called whenever a player is eliminated or
+   * resigns, e.g. to remove their pieces or end the game if only one player
+   * remains.
+   *
+   * @example
+   * game.onEliminate(player => {
+   *   player.allMy(Card).remove();
+   *   if (game.players.active().length === 1) game.finish(game.players.active()[0]);
+   * });
+   *
+   * @category Definition
+   */
+  onEliminate(handler: (player: P) => void) {
+    this._ctx.gameManager.eliminationHandler = handler;
+  }
+
+  /**
+   * Find events in the history of this game, oldest first. Each move, entry
+   * into a subflow, piece movement, change in visibility and the end of the
+   * game is recorded as a {@link GameEvent}. Pieces that a player could not see
+   * are left out of their copy of the history. Players are only sent the events
+   * of each update, so in the browser this only includes the events since the
+   * game was loaded.
+   *
+   * @param type - Only return events of this type
+   * @param options.player - Only return events that occurred during this
+   * player's moves
+   * @param options.during - Only return events that occurred during the
+   * current iteration of the loop with this name. `'turn'` and `'round'` may
+   * also be used for the current turn or round of the innermost {@link
+   * eachPlayer}, as for {@link addEffect}.
+   *
+   * @example
+   * // the number of cards this player has drawn this round
+   * game.history('movement', { player, during: 'round' }).filter(e => e.from === $.deck).length
+   *
+   * @category Game Management
+   */
+  history<T extends GameEvent['type']>(type?: T, options?: {player?: P, during?: string}): Extract<GameEvent<P>, {type: T}>[] {
+    const gameManager = this._ctx.gameManager;
+    const scope = options?.during ? JSON.stringify(gameManager.loopScope(options.during)) : undefined;
+    const during = (event: RecordedGameEvent) => {
+      try {
+        return JSON.stringify(gameManager.loopScope(options!.during!, event.scope)) === scope;
+      } catch (e) {
+        // the event was not within this loop
+        return false;
+      }
+    };
+    return gameManager.events.filter(event =>
+      (!type || event.type === type) &&
+      (!options?.player || event.player === options.player) &&
+      (!scope || during(event))
+    ) as Extract<GameEvent<P>, {type: T}>[];
+  }
+
+  /**
+   * Add a continuous effect to the game, e.g. "your actions cost 1 less until
+   * the end of the turn" or "this space is blocked until next round". Effects
+   * have no behaviour of their own. Game code finds the effects that apply
+   * using {@link effects}, e.g. when calculating costs or in an action
+   * `condition`. Effects are saved with the game state.
+   *
+   * @param name - The kind of effect, e.g. `'discount'`
+   * @param options.on - The player or element affected. If omitted, the effect
+   * applies to the whole game.
+   * @param options.value - Any value for the effect, e.g. the amount of a
+   * discount
+   * @param options.until - How long the effect lasts. One of 'action' for
+   * the action being taken, 'permanent' or the name of a loop to last for the
+   * current iteration of that loop. 'turn' and 'round' can also be used as in
+   * the `limit` of an {@link action}. Default 'permanent'.
+   *
+   * @example
+   * game.addEffect('discount', { on: player, value: 1, until: 'turn' });
+   *
+   * @category Game Management
+   */
+  addEffect(name: string, options?: {on?: GameElement | P, value?: Serializable, until?: string}) {
+    this._ctx.gameManager.addEffect({ name, on: options?.on, value: options?.value, until: options?.until ?? 'permanent' });
+  }
+
+  /**
+   * Find the effects added with {@link addEffect} that have not yet ended.
+   *
+   * @param name - The kind of effect
+   * @param on - Return the effects on this player or element, along with any
+   * that apply to the whole game. If omitted, only effects on the whole game are
+   * returned.
+   *
+   * @example
+   * const discount = game.effects('discount', player).reduce((total, e) => total + (e.value as number), 0);
+   *
+   * @category Game Management
+   */
+  effects(name: string, on?: GameElement | P): Effect[] {
+    return this._ctx.gameManager.effects.filter(
+      effect => effect.name === name && (effect.on === undefined || effect.on === on) && this._ctx.gameManager.isEffectActive(effect)
+    );
+  }
+
   /**
    * Return array of game winners, or undefined if game is not yet finished
    * @category Game Management
@@ -400,7 +687,7 @@ export default class Game<G extends BaseGame = BaseGame, P extends BasePlayer =
    * @category Game Management
    */
   message(text: string, args?: Record<string, Argument>) {
-    this._ctx.gameManager.messages.push({body: n(text, args, true)});
+    this._ctx.gameManager.messages.push(createMessage(this, text, args));
   }
 
   /**
@@ -430,7 +717,7 @@ export default class Game<G extends BaseGame = BaseGame, P extends BasePlayer =
     if (!(player instanceof Array)) player = [player];
     for (const p of player) {
       this._ctx.gameManager.messages.push({
-        body: n(text, args, true),
+        ...createMessage(this, text, args),
         position: typeof p === 'number' ? p : p.position
       });
     }
@@ -29,35 +29,38 @@ export default class Piece<G extends Game, P extends Player = NonNullable<G['pla
    * @category Visibility
    */
   showToAll() {
-    delete(this._visible);
+    this._trackVisibility(() => delete(this._visible));
   }
 
   /**
-   * Show this piece only to the given player
+   * Show this piece only to the given player, or to the players on the given
+   * team
    * @category Visibility
    */
-  showOnlyTo(player: Player | number) {
-    if (typeof player !== 'number') player = player.position;
-    this._visible = {
+  showOnlyTo(player: Player | number | string) {
+    const positions = this.game.players.positionsOf(player);
+    this._trackVisibility(() => this._visible = {
       default: false,
-      except: [player]
-    };
+      except: positions
+    });
   }
 
   /**
-   * Show this piece to the given players without changing it's visibility to
-   * any other players.
+   * Show this piece to the given players, or to the players on the given team,
+   * without changing it's visibility to any other players.
    * @category Visibility
    */
-  showTo(...player: Player[] | number[]) {
-    if (typeof player[0] !== 'number') player = (player as Player[]).map(p => p.position);
+  showTo(...player: Player[] | number[] | [team: string]) {
+    player = this.game.players.positionsOf(...player);
     if (this._visible === undefined) return;
-    if (this._visible.default) {
-      if (!this._visible.except) return;
-      this._visible.except = this._visible.except.filter(i => !(player as number[]).includes(i));
-    } else {
-      this._visible.except = Array.from(new Set([...(this._visible.except instanceof Array ? this._visible.except : []), ...(player as number[])]))
-    }
+    this._trackVisibility(() => {
+      if (this._visible!.default) {
+        if (!this._visible!.except) return;
+        this._visible!.except = this._visible!.except.filter(i => !(player as number[]).includes(i));
+      } else {
+        this._visible!.except = Array.from(new Set([...(this._visible!.except instanceof Array ? this._visible!.except : []), ...(player as number[])]))
+      }
+    });
   }
 
   /**
@@ -65,35 +68,58 @@ export default class Piece<G extends Game, P extends Player = NonNullable<G['pla
    * @category Visibility
    */
   hideFromAll() {
-    this._visible = {default: false};
+    this._trackVisibility(() => this._visible = {default: false});
   }
 
   /**
-   * Hide this piece from the given players without changing it's visibility to
-   * any other players.
+   * Hide this piece from the given players, or from the players on the given
+   * team, without changing it's visibility to any other players.
    * @category Visibility
    */
-  hideFrom(...player: Player[] | number[]) {
-    if (typeof player[0] !== 'number') player = (player as Player[]).map(p => p.position);
+  hideFrom(...player: Player[] | number[] | [team: string]) {
+    player = this.game.players.positionsOf(...player);
     if (this._visible?.default === false && !this._visible.except) return;
-    if (this._visible === undefined || this._visible.default === true) {
-      this._visible = {
-        default: true,
-        except: Array.from(new Set([...(this._visible?.except instanceof Array ? this._visible.except : []), ...(player as number[])]))
-      };
-    } else {
-      if (!this._visible.except) return;
-      this._visible.except = this._visible.except.filter(i => !(player as number[]).includes(i));
+    this._trackVisibility(() => {
+      if (this._visible === undefined || this._visible.default === true) {
+        this._visible = {
+          default: true,
+          except: Array.from(new Set([...(this._visible?.except instanceof Array ? this._visible.except : []), ...(player as number[])]))
+        };
+      } else {
+        if (!this._visible.except) return;
+        this._visible.except = this._visible.except.filter(i => !(player as number[]).includes(i));
+      }
+    });
+  }
+
+  /**
+   * Apply a change in visibility, noting whether any player can now see this
+   * piece who could not before, which determines if a move can be undone, and
+   * adding the change to the game history.
+   * @internal
+   */
+  _trackVisibility(change: () => void) {
+    const hiddenFrom = this.game.players.filter(p => !this.isVisibleTo(p)).map(p => p.position);
+    change();
+    const revealedTo = hiddenFrom.filter(p => this.isVisibleTo(p));
+    const nowHiddenFrom = this.game.players.filter(p => !this.isVisibleTo(p) && !hiddenFrom.includes(p.position)).map(p => p.position);
+    if (!this._ctx.gameManager) return;
+    if (revealedTo.length) this._ctx.gameManager.revealed = true;
+    if (revealedTo.length || nowHiddenFrom.length) {
+      this._ctx.gameManager.addEvent({ type: 'visibility', piece: this, revealedTo, hiddenFrom: nowHiddenFrom });
     }
   }
 
   /**
-   * Returns whether this piece is visible to the given player
+   * Returns whether this piece is visible to the given player. Position 0
+   * checks whether a spectator can see it, i.e. whether it is visible to every
+   * player.
    * @category Visibility
    */
-  isVisibleTo(player: Player | number) {
+  isVisibleTo(player: Player | number): boolean {
     if (typeof player !== 'number') player = player.position;
     if (this._visible === undefined) return true;
+    if (player === 0) return this.game.players.every(p => this.isVisibleTo(p));
     if (this._visible.default) {
       return !this._visible.except || !(this._visible.except.includes(player));
     } else {
@@ -165,6 +191,7 @@ export default class Piece<G extends Game, P extends Player = NonNullable<G['pla
     if (options?.column !== undefined) this.column = options.column;
 
     if (previousParent !== to && to instanceof Space) to.triggerEvent("enter", this);
+    this._ctx.gameManager?.addEvent({ type: 'movement', piece: this, from: previousParent!, to });
   }
 
   cloneInto<T extends GameElement>(this: T, into: GameElement): T {
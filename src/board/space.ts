@@ -45,11 +45,12 @@ export default class Space<G extends BaseGame, P extends Player = NonNullable<G[
   }
 
   /**
-   * Show piece to these players when they enter this space
+   * Show piece to these players, or to the players on the given team, when they
+   * enter this space
    * @category Visibility
    */
-  contentsWillBeShownTo(...players: P[]) {
-    this._visOnEnter = {default: false, except: players.map(p => p.position)};
+  contentsWillBeShownTo(...players: P[] | [team: string]) {
+    this._visOnEnter = {default: false, except: this.game.players.positionsOf(...players)};
   }
 
   /**
@@ -61,11 +62,12 @@ export default class Space<G extends BaseGame, P extends Player = NonNullable<G[
   }
 
   /**
-   * Hide piece to these players when they enter this space
+   * Hide piece to these players, or to the players on the given team, when they
+   * enter this space
    * @category Visibility
    */
-  contentsWillBeHiddenFrom(...players: P[]) {
-    this._visOnEnter = {default: true, except: players.map(p => p.position)};
+  contentsWillBeHiddenFrom(...players: P[] | [team: string]) {
+    this._visOnEnter = {default: true, except: this.game.players.positionsOf(...players)};
   }
 
   /**
@@ -128,10 +130,10 @@ export default class Space<G extends BaseGame, P extends Player = NonNullable<G[
 
   triggerEvent(event: keyof Space<G>['_eventHandlers'], element: Piece<G>) {
     if (this._visOnEnter) {
-      element._visible = {
-        default: this._visOnEnter.default,
-        except: this._visOnEnter.except === 'owner' ? (this.owner ? [this.owner.position] : undefined) : this._visOnEnter.except
-      }
+      element._trackVisibility(() => element._visible = {
+        default: this._visOnEnter!.default,
+        except: this._visOnEnter!.except === 'owner' ? (this.owner ? [this.owner.position] : undefined) : this._visOnEnter!.except as number[] | undefined
+      });
     }
 
     for (const handler of this._eventHandlers[event]) {
@@ -0,0 +1,108 @@
+import Space from './space.js';
+
+import type { BaseGame } from './game.js';
+import type Piece from './piece.js';
+import type Player from '../player/player.js';
+
+/**
+ * A Space for the trick in a trick-taking game. Pieces played to the trick with
+ * {@link play} are recorded along with the player that played them, so that
+ * the suit led and the winner of the trick can be found. Once the pieces leave
+ * the trick, e.g. when the winner collects them, the next piece played begins
+ * a new trick.
+ * @category Board
+ */
+export default class Trick<G extends BaseGame, P extends Player = NonNullable<G['player']>> extends Space<G, P> {
+  /**
+   * Each piece played to the trick and the player that played it, in the order
+   * played
+   * @category Trick
+   */
+  plays: { player: P, piece: Piece<G> }[] = [];
+
+  /**
+   * The player that won the last trick, and so leads the next. See {@link
+   * playTrick}.
+   * @category Trick
+   */
+  leader?: P;
+
+  /**
+   * Play a piece to this trick for a player
+   * @category Trick
+   */
+  play(piece: Piece<G>, player: P) {
+    piece.putInto(this);
+    this.plays.push({ player, piece });
+  }
+
+  // forget the play of any piece that leaves, so that no reference to it is
+  // kept once it may be hidden
+  triggerEvent(event: keyof Space<G>['_eventHandlers'], element: Piece<G>) {
+    if (event === 'exit') this.plays = this.plays.filter(({ piece }) => piece !== element);
+    super.triggerEvent(event, element);
+  }
+
+  /**
+   * The player that played a piece to this trick
+   * @category Trick
+   */
+  playerOf(piece: Piece<G>): P | undefined {
+    return this.plays.find(play => play.piece === piece)?.player;
+  }
+
+  /**
+   * The suit of the first piece played to this trick, if any
+   * @param suit - A function returning the suit of a piece
+   * @category Trick
+   */
+  ledSuit<T extends Piece<G>>(suit: (piece: T) => string): string | undefined {
+    const lead = this.plays[0];
+    return lead ? suit(lead.piece as T) : undefined;
+  }
+
+  /**
+   * The pieces from a hand that may be played to this trick. A player must
+   * follow the suit led if able, and may play any piece otherwise. Useful as
+   * the choices for {@link Action#chooseOnBoard}.
+   *
+   * @param hand - The pieces the player holds
+   * @param suit - A function returning the suit of a piece
+   *
+   * @example
+   * action.chooseOnBoard('card', () => $.trick.legalPlays(hand.all(Card), card => card.suit))
+   *
+   * @category Trick
+   */
+  legalPlays<T extends Piece<G>>(hand: T[], suit: (piece: T) => string): T[] {
+    const led = this.ledSuit(suit);
+    if (led === undefined || !hand.some(piece => suit(piece) === led)) return hand;
+    return hand.filter(piece => suit(piece) === led);
+  }
+
+  /**
+   * The winning play of this trick: the highest ranked trump if any were
+   * played, or else the highest ranked piece of the suit led
+   *
+   * @param options.suit - A function returning the suit of a piece
+   * @param options.rank - A function returning the rank of a piece, higher
+   * ranks winning
+   * @param options.trump - The trump suit, if any
+   *
+   * @category Trick
+   */
+  winningPlay<T extends Piece<G>>({ suit, rank, trump }: {
+    suit: (piece: T) => string,
+    rank: (piece: T) => number,
+    trump?: string,
+  }): { player: P, piece: T } | undefined {
+    const plays = this.plays as { player: P, piece: T }[];
+    const led = this.ledSuit(suit);
+    const winningSuit = trump !== undefined && plays.some(({ piece }) => suit(piece) === trump) ? trump : led;
+    let winner: { player: P, piece: T } | undefined = undefined;
+    for (const play of plays) {
+      if (suit(play.piece) === winningSuit && (!winner || rank(play.piece) > rank(winner.piece))) winner = play;
+    }
+    return winner;
+  }
+}
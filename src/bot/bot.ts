@@ -0,0 +1,39 @@
+import random from 'random-seed';
+
+import type GameManager from '../game-manager.js';
+import type { Move } from '../game-manager.js';
+import type Player from '../player/player.js';
+
+/**
+ * A computer player. Bots are registered by name in the options of {@link
+ * createInterface}, and a seat is played by a bot by setting the `bot`
+ * attribute of that player to the registered name. Any time a bot's player is
+ * current, the bot is asked for its move, which will be played automatically
+ * before the update is returned.
+ *
+ * Bots should use {@link botRandom} rather than `Math.random` for any
+ * randomness so that games can be reliably replayed. {@link
+ * GameManager#random} should not be used either, since it would prevent the
+ * last move from being undone and change the random numbers of the game.
+ *
+ * @category Bots
+ */
+export type Bot = {
+  /**
+   * Return the move to make for this player, or undefined if no move is
+   * possible. The move should be one of the moves returned by {@link
+   * legalMoves}.
+   */
+  chooseMove: (gameManager: GameManager, player: Player) => Move | undefined
+}
+
+/**
+ * Random numbers for a bot choosing a move for a player. These are seeded from
+ * the game's random seed, so that games with bots can be reliably replayed,
+ * without drawing from the game's own random numbers.
+ * @category Bots
+ */
+export const botRandom = (gameManager: GameManager, player: Player): () => number => (
+  // the number of events varies the seed for each move within an update
+  random.create(`${gameManager.rseed}/${player.position}/${gameManager.events.length}`).random
+);
@@ -0,0 +1,8 @@
+export { default as RandomBot } from './random-bot.js';
+export { default as MCTSBot } from './mcts-bot.js';
+export { default as MinimaxBot } from './minimax-bot.js';
+export { legalMoves } from './moves.js';
+export { botRandom } from './bot.js';
+
+export type { Bot } from './bot.js';
+export type { Determinizer } from './simulation.js';
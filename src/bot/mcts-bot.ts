@@ -0,0 +1,160 @@
+import { legalMoves } from './moves.js';
+import Simulation from './simulation.js';
+import { botRandom } from './bot.js';
+
+import type GameManager from '../game-manager.js';
+import type Player from '../player/player.js';
+import type { Game } from '../board/index.js';
+import type { SetupFunction } from '../game-creator.js';
+import type { Bot } from './bot.js';
+import type { SimulatedMove, Determinizer } from './simulation.js';
+
+type Node = {
+  move?: SimulatedMove,
+  parent?: Node,
+  children: Node[],
+  visits: number,
+  availability: number,
+  reward: number, // total reward, from the perspective of the player that made `move`
+}
+
+/**
+ * A bot that uses Monte Carlo tree search to find the best move. The bot
+ * never sees hidden information. Each iteration of the search is run on a copy
+ * of the game built from only what the bot's player can see, with the hidden
+ * information filled in randomly (see `determinize`).
+ *
+ * @example
+ * createInterface(setup, {
+ *   bots: {
+ *     mcts: new MCTSBot(setup, {
+ *       iterations: 500,
+ *       evaluate: (game, player) => player.score / game.maxScore
+ *     })
+ *   }
+ * });
+ *
+ * @category Bots
+ */
+export default class MCTSBot<G extends Game = Game> implements Bot {
+  setup: SetupFunction<G>;
+  iterations: number;
+  rolloutDepth: number;
+  exploration: number;
+  evaluate?: (game: G, player: NonNullable<G['player']>) => number;
+  determinize?: Determinizer<G>;
+
+  /**
+   * @param setup - The game's setup function returned by {@link createGame}
+   *
+   * @param options.iterations - Number of games to simulate per move (Default 100)
+   *
+   * @param options.rolloutDepth - Maximum number of random moves to play in a
+   * simulated game before evaluating the result (Default 20)
+   *
+   * @param options.exploration - Exploration constant used to balance trying
+   * new moves against favoring the best found so far (Default √2)
+   *
+   * @param options.evaluate - A heuristic function that estimates how well
+   * `player` is doing in a game that is not yet finished, returning a number
+   * from 0 (certain loss) to 1 (certain win). If not provided, unfinished games
+   * are scored as 0.5.
+   *
+   * @param options.determinize - A function that fills in hidden information
+   * on a copy of the game built from the bot player's view of the game. If not
+   * provided, any hidden pieces are randomly assigned the identities of the
+   * pieces created during setup that the player cannot see.
+   */
+  constructor(setup: SetupFunction<G>, options?: {
+    iterations?: number,
+    rolloutDepth?: number,
+    exploration?: number,
+    evaluate?: (game: G, player: NonNullable<G['player']>) => number,
+    determinize?: Determinizer<G>,
+  }) {
+    this.setup = setup;
+    this.iterations = options?.iterations ?? 100;
+    this.rolloutDepth = options?.rolloutDepth ?? 20;
+    this.exploration = options?.exploration ?? Math.SQRT2;
+    this.evaluate = options?.evaluate;
+    this.determinize = options?.determinize;
+  }
+
+  chooseMove(gameManager: GameManager, player: Player) {
+    const moves = legalMoves(gameManager, player);
+    if (moves.length <= 1) return moves[0];
+
+    const rng = botRandom(gameManager, player);
+    const root: Node = { children: [], visits: 0, availability: 0, reward: 0 };
+
+    const keys = moves.map(m => Simulation.serializeMove(m).key);
+    const best = Simulation.run(gameManager, () => {
+      const simulation = new Simulation<G>(this.setup, gameManager, player, rng, this.determinize);
+      for (let i = 0; i !== this.iterations; i++) this.iterate(simulation, root, rng);
+      return root.children.filter(node => keys.includes(node.move!.key)).reduce<Node | undefined>(
+        (best, node) => !best || node.visits > best.visits ? node : best, undefined
+      );
+    });
+
+    return best ? Simulation.deserializeMove(gameManager, best.move!) : moves[0];
+  }
+
+  iterate(simulation: Simulation<G>, root: Node, rng: () => number) {
+    const game = simulation.determinize();
+    let node = root;
+
+    // selection and expansion
+    while (game.phase === 'started') {
+      const actor = simulation.actor(game);
+      if (!actor) break;
+      const moves = legalMoves(game, actor).map(Simulation.serializeMove);
+      if (!moves.length) break;
+
+      const available = node.children.filter(child => moves.some(m => m.key === child.move!.key));
+      for (const child of available) child.availability += 1;
+      const untried = moves.filter(m => !node.children.some(child => child.move!.key === m.key));
+      if (untried.length) {
+        const move = untried[Math.floor(rng() * untried.length)];
+        const child: Node = { move, parent: node, children: [], visits: 0, availability: 1, reward: 0 };
+        node.children.push(child);
+        simulation.play(game, move);
+        node = child;
+        break;
+      }
+      node = available.reduce((best, child) => this.ucb(child) > this.ucb(best) ? child : best);
+      simulation.play(game, node.move!);
+    }
+
+    // rollout
+    for (let depth = 0; depth !== this.rolloutDepth && game.phase === 'started'; depth++) {
+      const actor = simulation.actor(game);
+      if (!actor) break;
+      const moves = legalMoves(game, actor);
+      if (!moves.length) break;
+      simulation.play(game, Simulation.serializeMove(moves[Math.floor(rng() * moves.length)]));
+    }
+
+    // backpropagation
+    const reward = this.score(game, simulation.position);
+    for (let n: Node | undefined = node; n; n = n.parent) {
+      n.visits += 1;
+      if (n.move) n.reward += n.move.position === simulation.position ? reward : 1 - reward;
+    }
+  }
+
+  // upper confidence bound, using availability rather than parent visits since
+  // moves may not be available in every determinization
+  ucb(node: Node) {
+    if (!node.visits) return Infinity;
+    return node.reward / node.visits + this.exploration * Math.sqrt(Math.log(node.availability) / node.visits);
+  }
+
+  score(game: GameManager<G>, position: number) {
+    if (game.phase === 'finished') {
+      if (!game.winner.length) return 0.5;
+      return game.winner.some(p => p.position === position) ? 1 : 0;
+    }
+    if (!this.evaluate) return 0.5;
+    return this.evaluate(game.game, game.players.atPosition(position)! as NonNullable<G['player']>);
+  }
+}
@@ -0,0 +1,139 @@
+import { legalMoves } from './moves.js';
+import Simulation from './simulation.js';
+import { botRandom } from './bot.js';
+
+import type GameManager from '../game-manager.js';
+import type Player from '../player/player.js';
+import type { Game } from '../board/index.js';
+import type { SetupFunction } from '../game-creator.js';
+import type { GameState } from '../interface.js';
+import type { Bot } from './bot.js';
+import type { SimulatedMove, Determinizer } from './simulation.js';
+
+// the score of a finished game. finite so that wins and losses in different
+// determinizations can be averaged
+const WIN = Number.MAX_VALUE;
+
+/**
+ * A bot that searches all moves to a fixed depth, assuming that every other
+ * player will always make the move that is worst for this bot, and picks the
+ * move with the best outcome according to the game's evaluation function. The
+ * bot never sees hidden information. The search is run on copies of the game
+ * built from only what the bot's player can see, with the hidden information
+ * filled in randomly (see `determinize`).
+ *
+ * @example
+ * createInterface(setup, {
+ *   bots: {
+ *     minimax: new MinimaxBot(setup, {
+ *       depth: 3,
+ *       evaluate: (game, player) => player.score - player.other().score
+ *     })
+ *   }
+ * });
+ *
+ * @category Bots
+ */
+export default class MinimaxBot<G extends Game = Game> implements Bot {
+  setup: SetupFunction<G>;
+  depth: number;
+  determinizations: number;
+  evaluate: (game: G, player: NonNullable<G['player']>) => number;
+  determinize?: Determinizer<G>;
+
+  /**
+   * @param setup - The game's setup function returned by {@link createGame}
+   *
+   * @param options.evaluate - A heuristic function that scores how well
+   * `player` is doing in a game that is not yet finished. Higher is better.
+   * Finished games are scored as `Number.MAX_VALUE` for a win and
+   * `-Number.MAX_VALUE` for a loss.
+   *
+   * @param options.depth - Number of moves to search ahead (Default 2)
+   *
+   * @param options.determinizations - Number of different ways to fill in
+   * hidden information. The scores for each move are averaged across all of
+   * these. (Default 1)
+   *
+   * @param options.determinize - A function that fills in hidden information
+   * on a copy of the game built from the bot player's view of the game. If not
+   * provided, any hidden pieces are randomly assigned the identities of the
+   * pieces created during setup that the player cannot see.
+   */
+  constructor(setup: SetupFunction<G>, options: {
+    evaluate: (game: G, player: NonNullable<G['player']>) => number,
+    depth?: number,
+    determinizations?: number,
+    determinize?: Determinizer<G>,
+  }) {
+    this.setup = setup;
+    this.evaluate = options.evaluate;
+    this.depth = options.depth ?? 2;
+    this.determinizations = options.determinizations ?? 1;
+    this.determinize = options.determinize;
+  }
+
+  chooseMove(gameManager: GameManager, player: Player) {
+    const moves = legalMoves(gameManager, player);
+    if (moves.length <= 1) return moves[0];
+
+    const rng = botRandom(gameManager, player);
+    const serializedMoves = moves.map(Simulation.serializeMove);
+    const scores = serializedMoves.map(() => 0);
+
+    Simulation.run(gameManager, () => {
+      const simulation = new Simulation<G>(this.setup, gameManager, player, rng, this.determinize);
+      for (let i = 0; i !== this.determinizations; i++) {
+        const state = simulation.determinize().getState();
+        serializedMoves.forEach((move, m) => {
+          scores[m] += this.search(simulation, this.apply(simulation, state, move), this.depth - 1, -Infinity, Infinity) / this.determinizations;
+        });
+      }
+    });
+
+    const best = scores.reduce((best, score, m) => score > scores[best] ? m : best, 0);
+    return moves[best];
+  }
+
+  // alpha-beta search returning the score of this game for the bot's player
+  search(simulation: Simulation<G>, game: GameManager<G>, depth: number, alpha: number, beta: number): number {
+    if (game.phase === 'finished') {
+      return game.winner.some(p => p.position === simulation.position) ? WIN : (game.winner.length ? -WIN : 0);
+    }
+    const actor = simulation.actor(game);
+    if (depth <= 0 || !actor) return this.score(game, simulation.position);
+    const moves = legalMoves(game, actor).map(Simulation.serializeMove);
+    if (!moves.length) return this.score(game, simulation.position);
+    const state = game.getState();
+
+    if (actor.position === simulation.position) {
+      let value = -Infinity;
+      for (const move of moves) {
+        value = Math.max(value, this.search(simulation, this.apply(simulation, state, move), depth - 1, alpha, beta));
+        alpha = Math.max(alpha, value);
+        if (alpha >= beta) break;
+      }
+      return value;
+    }
+
+    let value = Infinity;
+    for (const move of moves) {
+      value = Math.min(value, this.search(simulation, this.apply(simulation, state, move), depth - 1, alpha, beta));
+      beta = Math.min(beta, value);
+      if (alpha >= beta) break;
+    }
+    return value;
+  }
+
+  // a copy of the game with the move applied. the copy is kept, rather than
+  // its state, since whether the game has finished is not part of the state
+  apply(simulation: Simulation<G>, state: GameState, move: SimulatedMove): GameManager<G> {
+    const game = simulation.restore(state);
+    simulation.play(game, move);
+    return game;
+  }
+
+  score(game: GameManager<G>, position: number) {
+    return this.evaluate(game.game, game.players.atPosition(position)! as NonNullable<G['player']>);
+  }
+}
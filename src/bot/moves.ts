@@ -0,0 +1,99 @@
+import { range } from '../utils.js';
+
+import type GameManager from '../game-manager.js';
+import type { Move } from '../game-manager.js';
+import type Player from '../player/player.js';
+import type { Game, Piece, PieceGrid } from '../board/index.js';
+import type { default as Action, Argument } from '../action/action.js';
+import type { ResolvedSelection } from '../action/selection.js';
+
+/**
+ * Returns every complete, legal move currently available to a player. Each
+ * move has all of its selections fully resolved and can be passed directly to
+ * {@link GameManager#processMove}.
+ *
+ * Some selections have no finite list of options. For these, only a limited set
+ * of representative options are generated:
+ * - `enterText` only produces its `initial` value, or an empty string
+ * - `chooseNumber` without a `max` only produces its `initial` value
+ * - `placePiece` produces every free cell inside the current bounds of the
+ *   grid, for each of its `rotationChoices`
+ *
+ * @param limit - Stop enumerating once this many moves are found
+ * @category Bots
+ */
+export function legalMoves(gameManager: GameManager, player: Player, limit = Infinity): Move[] {
+  const moves: Move[] = [];
+  if (gameManager.phase !== 'started') return moves;
+
+  return gameManager.inContextOfPlayer(player, () => {
+    const godModeActions = gameManager.godMode ? Object.keys(gameManager.godModeActions()) : [];
+
+    for (const stub of gameManager.allowedActions(player).actions) {
+      if (moves.length >= limit) break;
+      if (godModeActions.includes(stub.name)) continue;
+      if (stub.name === '__pass__') {
+        moves.push({ player, name: '__pass__', args: {} });
+        continue;
+      }
+      const action = gameManager.getAction(stub.name, player);
+      for (const args of completeArgs(action, {...stub.args}, limit - moves.length)) {
+        moves.push({ player, name: stub.name, args });
+      }
+    }
+    return moves;
+  });
+}
+
+// recursively try each option for each remaining selection, returning all complete arg lists
+function completeArgs(action: Action, args: Record<string, Argument>, limit: number): Record<string, Argument>[] {
+  const selection = action._nextSelection(args);
+  if (!selection) return isValid(action, args) ? [args] : [];
+  if (!selection.isPossible()) return [];
+
+  let found: Record<string, Argument>[] = [];
+  for (const option of selectionOptions(action, selection, args)) {
+    if (found.length >= limit) break;
+    const allArgs = {...args, [selection.name]: option};
+    if (action._getError(selection, allArgs)) continue;
+    found = found.concat(completeArgs(action, allArgs, limit - found.length));
+  }
+  return found;
+}
+
+// revalidate all args together, since a validation may depend on later choices
+function isValid(action: Action, args: Record<string, Argument>) {
+  if (!action.isPossible(args)) return false;
+  return action.selections.every(s => !(s.name in args) || !action._getError(s.resolve(args), args));
+}
+
+function selectionOptions(action: Action, selection: ResolvedSelection, args: Record<string, Argument>): Argument[] {
+  if (selection.type === 'button') return [selection.value!];
+  if (selection.type === 'text') return [typeof selection.initial === 'string' ? selection.initial : ''];
+  if (selection.type === 'number') {
+    if (selection.max === undefined) return [selection.initial as number ?? selection.min ?? 1];
+    return range(selection.min ?? 1, selection.max);
+  }
+  if (selection.type === 'place') return placements(action, selection, args);
+  return selection.options();
+}
+
+function placements(action: Action, selection: ResolvedSelection, args: Record<string, Argument>): Argument[] {
+  const { piece: pieceName, into } = selection.clientContext.placement as { piece: string, into: PieceGrid<Game> };
+  const piece = args[pieceName] as Piece<Game>;
+  const options: Argument[] = [];
+
+  for (const rotation of selection.rotationChoices ?? [piece.rotation]) {
+    for (const row of range(1, into.rows)) {
+      for (const column of range(1, into.columns)) {
+        const placement = [column, row, rotation];
+        const fits = action._withDecoratedArgs({...args, __placement__: placement}, () => {
+          const size = into._sizeNeededFor(piece);
+          return column + size.width - 1 <= into.columns && row + size.height - 1 <= into.rows && !into.isOverlapping(piece);
+        });
+        if (fits) options.push(placement);
+      }
+    }
+  }
+  return options;
+}
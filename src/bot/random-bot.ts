@@ -0,0 +1,22 @@
+import { legalMoves } from './moves.js';
+import { botRandom } from './bot.js';
+
+import type GameManager from '../game-manager.js';
+import type Player from '../player/player.js';
+import type { Bot } from './bot.js';
+
+/**
+ * A bot that plays a random legal move each turn.
+ *
+ * @example
+ * createInterface(setup, { bots: { random: new RandomBot() } });
+ *
+ * @category Bots
+ */
+export default class RandomBot implements Bot {
+  chooseMove(gameManager: GameManager, player: Player) {
+    const moves = legalMoves(gameManager, player);
+    if (!moves.length) return;
+    return moves[Math.floor(botRandom(gameManager, player)() * moves.length)];
+  }
+}
@@ -0,0 +1,176 @@
+import { Piece } from '../board/index.js';
+import { serializeArg, serializeObject, deserializeArg, deserializeObject } from '../action/utils.js';
+import { shuffleArray } from '../utils.js';
+
+import type GameManager from '../game-manager.js';
+import type { Move, PlayerAttributes, SerializedMove } from '../game-manager.js';
+import type Player from '../player/player.js';
+import type { Game } from '../board/index.js';
+import type { SetupFunction } from '../game-creator.js';
+import type { GameState } from '../interface.js';
+import type { Argument } from '../action/action.js';
+
+/**
+ * A move serialized so that it can be replayed on any copy of the game
+ * @internal
+ */
+export type SimulatedMove = SerializedMove & { position: number, key: string };
+
+/**
+ * A function that fills in hidden information on a copy of the game that was
+ * built from only the information visible to a player. Typically this assigns
+ * plausible values to any hidden pieces, e.g. dealing the cards a player has
+ * not seen into the hands of the other players.
+ * @category Bots
+ */
+export type Determinizer<G extends Game = Game> = (game: G, player: NonNullable<G['player']>, random: () => number) => void;
+
+// attributes that identify a piece, apart from where it is
+const identity = (piece: Piece<Game>) => {
+  const attrs = piece.attributeList() as Record<string, any>;
+  for (const attr of ['_visible', 'row', 'column', '_rotation', '_size']) delete attrs[attr];
+  return serializeObject(attrs);
+}
+
+const identityKey = (className: string, attrs: Record<string, any>) => JSON.stringify([className, attrs]);
+
+/**
+ * Copies and simulates games for bots that search ahead, ensuring that only
+ * information visible to the bot's player is used.
+ * @internal
+ */
+export default class Simulation<G extends Game = Game> {
+  setup: SetupFunction<G>;
+  random: () => number;
+  state: GameState;
+  position: number;
+  determinizer?: Determinizer<G>;
+  pieces?: Record<string, {key: string, attrs: Record<string, any>}[]>;
+
+  constructor(setup: SetupFunction<G>, gameManager: GameManager, player: Player, random: () => number, determinizer?: Determinizer<G>) {
+    this.setup = setup;
+    this.random = random;
+    this.position = player.position;
+    this.determinizer = determinizer;
+    // only ever work from the view of the game that the player can see
+    this.state = gameManager.getState(player);
+  }
+
+  /**
+   * Create a copy of the game from the player's view, with any hidden
+   * information filled in with plausible values
+   */
+  determinize(): GameManager<G> {
+    const gameManager = this.restore({...this.state, rseed: String(this.random())});
+    const player = gameManager.players.atPosition(this.position)! as NonNullable<G['player']>;
+    if (this.determinizer) {
+      this.determinizer(gameManager.game, player, this.random);
+    } else {
+      this.assignHiddenPieces(gameManager.game);
+    }
+    return gameManager;
+  }
+
+  // assign hidden pieces the identities of pieces that were created in setup and are not visible
+  assignHiddenPieces(game: G) {
+    const pool = this.initialPieces();
+    const hidden: Piece<Game>[] = [];
+
+    for (const piece of game.all(Piece)) {
+      if (!piece.isVisibleTo(this.position)) {
+        hidden.push(piece);
+      } else {
+        const key = identityKey(piece.constructor.name, identity(piece));
+        const pieces = pool[piece.constructor.name];
+        const index = pieces?.findIndex(p => p.key === key) ?? -1;
+        if (index !== -1) pieces.splice(index, 1);
+      }
+    }
+
+    shuffleArray(hidden, this.random);
+    for (const piece of hidden) {
+      const pieces = pool[piece.constructor.name];
+      if (!pieces) continue;
+      const known = identity(piece);
+      const visibleAttributes = (piece.constructor as typeof Piece).visibleAttributes ?? [];
+      const candidates = pieces.filter(p => visibleAttributes.every(attr => JSON.stringify(p.attrs[attr]) === JSON.stringify(known[attr])));
+      if (!candidates.length) continue;
+      const chosen = candidates[Math.floor(this.random() * candidates.length)];
+      pieces.splice(pieces.indexOf(chosen), 1);
+      Object.assign(piece, deserializeObject(chosen.attrs, game));
+    }
+  }
+
+  // the identities of all pieces as created at the start of the game
+  initialPieces() {
+    if (!this.pieces) {
+      const players = this.state.players.map(({ id, name, color, avatar, host, position }) => ({ id, name, color, avatar, host, position }));
+      const initial = this.setup({ players: players as PlayerAttributes[], settings: this.state.settings, randomSeed: this.state.rseed }, { rseed: String(this.random()) });
+      this.pieces = {};
+      for (const piece of initial.game.all(Piece)) {
+        const attrs = identity(piece);
+        this.pieces[piece.constructor.name] ??= [];
+        this.pieces[piece.constructor.name].push({ key: identityKey(piece.constructor.name, attrs), attrs });
+      }
+    }
+    return Object.fromEntries(Object.entries(this.pieces).map(([className, pieces]) => [className, [...pieces]]));
+  }
+
+  /**
+   * Rebuild a copy of the game from a full state
+   */
+  restore(state: GameState): GameManager<G> {
+    const gameManager = this.setup(state, { rseed: state.rseed });
+    gameManager.messages = [];
+    gameManager.announcements = [];
+    return gameManager;
+  }
+
+  /**
+   * Apply a move to the copy and play the game forward until the next move is
+   * needed
+   */
+  play(gameManager: GameManager<G>, move: SimulatedMove) {
+    const error = gameManager.processMove(Simulation.deserializeMove(gameManager, move));
+    if (error) throw Error(`Unable to simulate move ${move.key}: ${error}`);
+    gameManager.play();
+  }
+
+  /**
+   * The player whose move is being simulated. If the bot's player is one of
+   * the current players, this is always the bot's player.
+   */
+  actor(gameManager: GameManager<G>): Player | undefined {
+    const current = gameManager.players.allCurrent();
+    return current.find(p => p.position === this.position) ?? current[0];
+  }
+
+  /**
+   * Run simulations, ensuring that the actual game is the one in play
+   * afterwards
+   */
+  static run<T>(gameManager: GameManager, fn: () => T): T {
+    return gameManager.inContext(fn);
+  }
+
+  static serializeMove(move: Move): SimulatedMove {
+    const args = Object.fromEntries(Object.entries(move.args).map(([k, v]) => [k, serializeArg(v as Argument)]));
+    return {
+      position: move.player.position,
+      name: move.name,
+      args,
+      key: JSON.stringify([move.player.position, move.name, args])
+    };
+  }
+
+  /**
+   * Convert a simulated move back into a move in the actual game
+   */
+  static deserializeMove(gameManager: GameManager, move: SimulatedMove): Move {
+    return {
+      player: gameManager.players.atPosition(move.position)!,
+      name: move.name,
+      args: Object.fromEntries(Object.entries(move.args).map(([k, v]) => [k, deserializeArg(v, gameManager.game)]))
+    };
+  }
+}
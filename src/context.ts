@@ -0,0 +1,37 @@
+import type GameManager from './game-manager.js';
+
+// the game whose code is currently running, or else the last one to run
+let current: GameManager | undefined;
+// how many games are running inside one another
+let depth = 0;
+
+// `$` always refers to the named spaces of the current game
+Object.defineProperty(globalThis, '$', {
+  get: () => current?.game._ctx.namedSpaces,
+  configurable: true,
+});
+
+/**
+ * The game currently being played. `$` and `Do` always refer to this game.
+ * @internal
+ */
+export const gameContext = () => current;
+
+/**
+ * Run code for a game, with `$` and `Do` referring to it. A game that was
+ * already running is resumed afterwards, so that games may run inside one
+ * another, e.g. simulations by a bot. Otherwise this game remains the current
+ * one.
+ * @internal
+ */
+export const runInContext = <T>(gameManager: GameManager, fn: () => T): T => {
+  const previous = current;
+  depth += 1;
+  current = gameManager;
+  try {
+    return fn();
+  } finally {
+    depth -= 1;
+    if (depth && previous) current = previous;
+  }
+}
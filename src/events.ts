@@ -0,0 +1,120 @@
+import { serialize, deserialize } from './action/utils.js';
+
+import type { GameElement, Game, Piece } from './board/index.js';
+import type Player from './player/player.js';
+import type { Argument } from './action/action.js';
+
+/**
+ * An event in the history of the game. Retrieve these with {@link
+ * Game#history}. Events include:
+ *
+ * <ul>
+ * <li> move: A player's move, with the action `name` and its `args`
+ * <li> subflow: Entering a subflow with `name` and any `args`
+ * <li> movement: A `piece` moving `from` one element `to` another
+ * <li> visibility: A `piece` being shown or hidden, with the positions of the
+ * players it is now `revealedTo` or `hiddenFrom`
+ * <li> elimination: A player being `eliminated` from the game
+ * <li> finish: The game ending, with the `winners`
+ * </ul>
+ *
+ * Any pieces that a player could not see are left out of their copy of the
+ * history.
+ *
+ * @category Game Management
+ */
+export type GameEvent<P extends Player = Player> = {
+  sequence: number, // sequence of the game state when the event occurred
+  scope: [string, number][], // the iteration of each named loop when the event occurred, outermost first
+  player?: P, // the player whose move caused this event
+} & (
+  { type: 'move', name: string, args: Record<string, Argument> } |
+  { type: 'subflow', name: string, args?: Record<string, Argument> } |
+  { type: 'movement', piece?: Piece<Game>, from: GameElement, to: GameElement } |
+  { type: 'visibility', piece?: Piece<Game>, revealedTo: number[], hiddenFrom: number[] } |
+  { type: 'elimination', eliminated: P } |
+  { type: 'finish', winners: P[] }
+);
+
+// the contents of an event supplied when it occurs
+type EventData<E> = E extends unknown ? Omit<E, 'sequence' | 'scope' | 'player'> : never;
+
+/**
+ * An event as it is supplied to {@link GameManager#addEvent}
+ * @internal
+ */
+export type GameEventData = EventData<GameEvent>;
+
+/**
+ * A game event along with the players that could not see each element it
+ * refers to when it occurred, keyed by the property or arg name
+ * @internal
+ */
+export type RecordedGameEvent = GameEvent & { _hidden?: Record<string, number[]> };
+
+const elementsIn = (value: any): GameElement[] => {
+  if (value instanceof Array) return value.flatMap(elementsIn);
+  return value && typeof value === 'object' && 'isGameElement' in value.constructor ? [value] : [];
+}
+
+const hiddenFrom = (value: any, players: Player[]) => {
+  const elements = elementsIn(value);
+  return players.filter(p => elements.some(el => !el._isSeenBy(p.position))).map(p => p.position);
+}
+
+/**
+ * Create an event, noting which players cannot see any pieces it refers to
+ * @internal
+ */
+export const recordEvent = (game: Game, event: RecordedGameEvent): RecordedGameEvent => {
+  const hidden: Record<string, number[]> = {};
+  if ('piece' in event) hidden.piece = hiddenFrom(event.piece, game.players);
+  if (event.type === 'move' || event.type === 'subflow') {
+    for (const [name, arg] of Object.entries(event.args ?? {})) hidden[`args.${name}`] = hiddenFrom(arg, game.players);
+  }
+  for (const [key, positions] of Object.entries(hidden)) if (!positions.length) delete hidden[key];
+  if (Object.keys(hidden).length) event._hidden = hidden;
+  return event;
+}
+
+/**
+ * Serialize an event. If `seenBy` is provided, leaves out any elements that
+ * the player could not see when the event occurred or cannot see now. A
+ * spectator (position 0) sees only the elements that every player could see.
+ * @internal
+ */
+export const serializeEvent = (event: RecordedGameEvent, seenBy?: number): Record<string, any> => {
+  const { _hidden, ...json } = event as RecordedGameEvent & Record<string, any>;
+  if (seenBy === undefined) return serialize({ ...json, ...(_hidden && { _hidden }) }, false);
+
+  const wasHidden = (key: string) => seenBy === 0 ? !!_hidden?.[key]?.length : !!_hidden?.[key]?.includes(seenBy);
+  const visible = (key: string, value: any) => !wasHidden(key) && elementsIn(value).every(el => el._isSeenBy(seenBy));
+  if ('piece' in json && !visible('piece', json.piece)) delete json.piece;
+  if (json.args) {
+    json.args = Object.fromEntries(Object.entries(json.args).filter(([name, arg]) => visible(`args.${name}`, arg)));
+  }
+  return serialize(json, true);
+}
+
+/**
+ * Restore a serialized event. Any elements that can no longer be found are left
+ * out.
+ * @internal
+ */
+export const deserializeEvent = (json: Record<string, any>, game: Game): RecordedGameEvent => {
+  const event: Record<string, any> = {};
+  for (const [key, value] of Object.entries(json)) {
+    if (key === 'args') {
+      event.args = deserializeEvent(value, game);
+    } else if (key === 'scope' || key === '_hidden') {
+      event[key] = value;
+    } else {
+      try {
+        event[key] = deserialize(value, game);
+      } catch (e) {
+        // element no longer available
+      }
+    }
+  }
+  return event as RecordedGameEvent;
+}
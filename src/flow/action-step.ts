@@ -1,6 +1,7 @@
 import Flow from './flow.js';
 import { deserializeObject, serializeObject } from '../action/utils.js';
-import { FlowControl, InterruptControl, interruptSignal } from './enums.js';
+import { FlowControl, InterruptControl } from './enums.js';
+import { runInContext } from '../context.js';
 
 import type { FlowBranchNode, FlowDefinition, FlowStep } from './flow.js';
 import type { Player } from '../player/index.js';
@@ -29,8 +30,10 @@ export default class ActionStep extends Flow {
   repeatUntil?: boolean;
   description?: string;
   skipIf: 'always' | 'never' | 'only-one';
+  undo?: 'always' | 'until-reveal' | 'never';
+  timeLimit?: { turn?: number, bank?: number, onTimeout?: 'pass' | 'random' | 'forfeit' };
 
-  constructor({ name, player, players, actions, prompt, description, optional, condition, continueIfImpossible, repeatUntil, skipIf }: {
+  constructor({ name, player, players, actions, prompt, description, optional, condition, continueIfImpossible, repeatUntil, skipIf, undo, timeLimit }: {
     name?: string,
     players?: Player[] | ((args: Record<string, any>) => Player[]),
     player?: Player | ((args: Record<string, any>) => Player),
@@ -47,6 +50,8 @@ export default class ActionStep extends Flow {
     description?: string,
     optional?: string | ((args: Record<string, any>) => string),
     skipIf?: 'always' | 'never' | 'only-one',
+    undo?: 'always' | 'until-reveal' | 'never',
+    timeLimit?: { turn?: number, bank?: number, onTimeout?: 'pass' | 'random' | 'forfeit' },
   }) {
     super({ name });
     this.actions = actions.map(a => typeof a === 'string' ? {name: a} : a);
@@ -61,6 +66,8 @@ export default class ActionStep extends Flow {
     this.condition = condition;
     this.continueIfImpossible = continueIfImpossible ?? false;
     this.skipIf = skipIf ?? 'always';
+    this.undo = undo;
+    this.timeLimit = timeLimit;
     this.players = players ?? player;
   }
 
@@ -86,7 +93,7 @@ export default class ActionStep extends Flow {
   getPlayers() {
     if (this.players) {
       const players = typeof this.players === 'function' ? this.players(this.flowStepArgs()) : this.players;
-      return (players instanceof Array ? players : [players]).map(p => p.position);
+      return (players instanceof Array ? players : [players]).filter(p => !p.eliminated).map(p => p.position);
     }
   }
 
@@ -114,6 +121,8 @@ export default class ActionStep extends Flow {
     actions: ActionStub[],
     continueIfImpossible?: boolean,
     skipIf: 'always' | 'never' | 'only-one';
+    undo?: 'always' | 'until-reveal' | 'never';
+    timeLimit?: { turn?: number, bank?: number, onTimeout?: 'pass' | 'random' | 'forfeit' };
   } | undefined {
     if (!this.position) {
       if (!player || player.isCurrent()) {
@@ -128,26 +137,43 @@ export default class ActionStep extends Flow {
           })),
           continueIfImpossible: this.continueIfImpossible,
           skipIf: this.skipIf,
+          undo: this.undo,
+          timeLimit: this.timeLimit,
         }
       }
     }
   }
 
+  // throws if the move cannot be made at this step
+  checkMove(move: NonNullable<ActionStepPosition>) {
+    // continuing without a move is possible if this step may be skipped or if the player has run out of time
+    const timedOut = this.timeLimit && this.gameManager.timingOut === move.player;
+    if ((move.name !== '__continue__' || !(this.continueIfImpossible || timedOut)) && !this.allowedActions().includes(move.name)) {
+      throw Error(`No action ${move.name} available at this point. Waiting for ${this.allowedActions().join(", ")}`);
+    }
+    if (!this.gameManager.players.currentPosition.includes(move.player)) {
+      throw Error(`Move ${move.name} from player #${move.player} not allowed. Current players: #${this.gameManager.players.currentPosition.join('; ')}`);
+    }
+  }
+
+  // check a move without processing it. returns error (string) or ok (undefined)
+  validateMove(move: NonNullable<ActionStepPosition>): string | undefined {
+    this.checkMove(move);
+    if (move.name === '__pass__' || move.name === '__continue__') return;
+    const player = this.gameManager.players.atPosition(move.player);
+    if (!player) return `No such player position: ${move.player}`;
+    const gameAction = this.gameManager.getAction(move.name, player);
+    return runInContext(this.gameManager, () => gameAction._validate(move.args));
+  }
+
   // returns error (string) or subflow {args, name} or ok (undefined)
   processMove(move: {
     player: number,
     name: string,
     args: Record<string, Argument>,
   }): string | SubflowSignal['data'][] | undefined {
-    if ((move.name !== '__continue__' || !this.continueIfImpossible) && !this.allowedActions().includes(move.name)) {
-      throw Error(`No action ${move.name} available at this point. Waiting for ${this.allowedActions().join(", ")}`);
-    }
+    this.checkMove(move);
     const gameManager = this.gameManager;
-
-    if (!gameManager.players.currentPosition.includes(move.player)) {
-      throw Error(`Move ${move.name} from player #${move.player} not allowed. Current players: #${gameManager.players.currentPosition.join('; ')}`);
-    }
-
     const player = gameManager.players.atPosition(move.player);
     if (!player) return `No such player position: ${move.player}`;
 
@@ -157,7 +183,7 @@ export default class ActionStep extends Flow {
     }
 
     const gameAction = gameManager.getAction(move.name, player);
-    const error = gameAction._process(player, move.args);
+    const error = runInContext(gameManager, () => gameAction._process(player, move.args));
     if (error) {
       // failed with a selection required
       return error;
@@ -165,8 +191,8 @@ export default class ActionStep extends Flow {
       // succeeded
       this.setPosition(this.position ? {...this.position} : move);
 
-      if (interruptSignal[0]) {
-        const interrupt = interruptSignal.splice(0);
+      if (gameManager.interruptSignal[0]) {
+        const interrupt = gameManager.interruptSignal.splice(0);
         if (interrupt[0].signal === InterruptControl.subflow) return (interrupt as SubflowSignal[]).map(s => s.data);
         const loop = this.currentLoop(interrupt[0].data);
         if (!loop) {
@@ -0,0 +1,129 @@
+import Flow from './flow.js';
+import BidStep from './bid-step.js';
+import { FlowControl } from './enums.js';
+import { range } from '../utils.js';
+
+import type { FlowArguments, FlowDefinition, FlowBranchNode } from './flow.js';
+import type { Player, PlayerCollection } from '../player/index.js';
+
+export type AuctionPosition = {
+  bidders: number[], // players still bidding, in bidding order
+  turn: number, // index in bidders of the player to bid, or -1 once bidding is over
+  high?: { player: number, amount: number },
+};
+
+export default class Auction<P extends Player> extends Flow {
+  position: AuctionPosition;
+  players?: P[] | ((a: FlowArguments) => P[]);
+  minimum: number | ((a: FlowArguments) => number);
+  increment: number;
+  bidStep: BidStep;
+  type: FlowBranchNode['type'] = 'auction';
+
+  constructor({ name, players, bid, amount, minimum, increment, prompt, pass, do: block }: {
+    name?: string,
+    players?: P[] | ((a: FlowArguments) => P[]),
+    bid: string,
+    amount?: string,
+    minimum?: number | ((a: FlowArguments) => number),
+    increment?: number,
+    prompt?: string | ((args: Record<string, any>) => string),
+    pass?: string,
+    do?: FlowDefinition,
+  }) {
+    super({ name, do: block });
+    this.players = players;
+    this.minimum = minimum ?? 1;
+    this.increment = increment ?? 1;
+    this.bidStep = new BidStep({
+      player: () => this.bidder()!,
+      bid,
+      amount: amount ?? 'amount',
+      minimum: () => this.minimumBid(),
+      prompt,
+      pass,
+    });
+  }
+
+  reset() {
+    const players = (typeof this.players === 'function' ? this.players(this.flowStepArgs()) : this.players) ?? this.inTurnOrder();
+    const bidders = players.filter(p => !p.eliminated).map(p => p.position);
+    this.setPosition({ bidders, turn: bidders.length ? 0 : -1 });
+  }
+
+  // all players in turn order, starting with the player that is acting
+  inTurnOrder(): P[] {
+    const players = this.gameManager.players as PlayerCollection<P>;
+    const first = players.allCurrent()[0] ?? players[0];
+    return range(0, players.length - 1).map(i => players[(players.turnOrderOf(first) + i) % players.length]);
+  }
+
+  bidder(): P | undefined {
+    if (this.position.turn === -1) return;
+    return this.gameManager.players.atPosition(this.position.bidders[this.position.turn]) as P;
+  }
+
+  minimumBid(): number {
+    if (this.position.high) return this.position.high.amount + this.increment;
+    return typeof this.minimum === 'function' ? this.minimum(this.flowStepArgs()) : this.minimum;
+  }
+
+  // the high bid so far, and the player to bid next
+  thisStepArgs() {
+    if (this.name && this.position) {
+      const high = this.position.high;
+      return {[this.name]: {
+        bidder: this.bidder(),
+        winner: high && this.gameManager.players.atPosition(high.player),
+        price: high?.amount,
+      }};
+    }
+  }
+
+  currentBlock() {
+    return this.position.turn === -1 ? this.block : this.bidStep;
+  }
+
+  advance() {
+    if (this.position.turn === -1) return FlowControl.complete;
+
+    // players that pass are out of the auction
+    const move = this.bidStep.position!;
+    let { bidders, turn, high } = this.position;
+    if (move.name === this.bidStep.bid) {
+      high = { player: move.player, amount: move.args[this.bidStep.amount] as number };
+      turn += 1;
+    } else {
+      bidders = bidders.filter((_, i) => i !== turn);
+    }
+
+    if (!bidders.length || (bidders.length === 1 && bidders[0] === high?.player)) {
+      turn = -1;
+    } else {
+      turn %= bidders.length;
+    }
+    this.setPosition({ bidders, turn, ...(high && { high }) });
+    return FlowControl.ok;
+  }
+
+  allSteps() {
+    return [this.bidStep, ...(this.block ? (this.block instanceof Array ? this.block : [this.block]) : [])];
+  }
+
+  toString(): string {
+    return `auction${this.name ? ":" + this.name : ""} (high bid: ${this.position?.high?.amount ?? 'none'}${this.block instanceof Array ? ', item #' + this.sequence : ''})`;
+  }
+
+  visualize(top: Flow) {
+    return this.visualizeBlocks({
+      type: 'auction',
+      top,
+      blocks: {
+        bid: [this.bidStep],
+        do: this.block ? (this.block instanceof Array ? this.block : [this.block]) : undefined,
+      },
+      block: this.position?.turn === -1 ? 'do' : 'bid',
+      position: this.position?.high,
+    });
+  }
+}
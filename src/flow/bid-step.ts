@@ -0,0 +1,56 @@
+import ActionStep from './action-step.js';
+
+import type { Player } from '../player/index.js';
+import type { Argument } from '../action/action.js';
+import type { SubflowSignal } from './enums.js';
+
+// a bid in an auction. the bid action receives the minimum bid as the arg
+// `minimum` and bids below it are rejected.
+export default class BidStep extends ActionStep {
+  bid: string;
+  amount: string;
+  minimum: () => number;
+
+  constructor({ player, bid, amount, minimum, prompt, pass }: {
+    player?: (args: Record<string, any>) => Player,
+    bid: string,
+    amount: string,
+    minimum: () => number,
+    prompt?: string | ((args: Record<string, any>) => string),
+    pass?: string,
+  }) {
+    super({
+      player,
+      actions: [{ name: bid, args: () => ({ minimum: minimum() }) }],
+      prompt,
+      optional: pass ?? 'Pass',
+    });
+    this.bid = bid;
+    this.amount = amount;
+    this.minimum = minimum;
+  }
+
+  // returns error (string) if this is a bid below the minimum
+  checkBid(move: { name: string, args: Record<string, Argument> }): string | undefined {
+    if (move.name !== this.bid) return;
+    const amount = move.args[this.amount];
+    const minimum = this.minimum();
+    if (typeof amount !== 'number' || amount < minimum) return `Bid must be at least ${minimum}`;
+  }
+
+  validateMove(move: {
+    player: number,
+    name: string,
+    args: Record<string, Argument>,
+  }): string | undefined {
+    return this.checkBid(move) ?? super.validateMove(move);
+  }
+
+  processMove(move: {
+    player: number,
+    name: string,
+    args: Record<string, Argument>,
+  }): string | SubflowSignal['data'][] | undefined {
+    return this.checkBid(move) ?? super.processMove(move);
+  }
+}
@@ -0,0 +1,152 @@
+import Flow from './flow.js';
+import ActionStep from './action-step.js';
+import EveryPlayer from './every-player.js';
+import ForLoop from './for-loop.js';
+import Piece from '../board/piece.js';
+import { FlowControl } from './enums.js';
+
+import type { FlowArguments, FlowDefinition, FlowBranchNode } from './flow.js';
+import type { Player, PlayerCollection } from '../player/index.js';
+import type { GameElement } from '../board/index.js';
+
+export type DraftPosition = {
+  round: number, // starting at 1
+  picking: boolean, // false while the packs for the round are dealt
+};
+
+export default class Draft<P extends Player> extends Flow {
+  position: DraftPosition;
+  packs: (player: P) => GameElement;
+  picks: number | ((a: FlowArguments) => number);
+  direction: 'left' | 'right';
+  rounds: number;
+  picking: EveryPlayer<P>;
+  type: FlowBranchNode['type'] = 'draft';
+
+  constructor({ name, packs, pick, picks, direction, rounds, prompt, deal }: {
+    name?: string,
+    packs: (player: P) => GameElement,
+    pick: string,
+    picks?: number | ((a: FlowArguments) => number),
+    direction?: 'left' | 'right',
+    rounds?: number,
+    prompt?: string | ((args: Record<string, any>) => string),
+    deal?: FlowDefinition,
+  }) {
+    super({ name, do: deal });
+    this.packs = packs;
+    this.picks = picks ?? 1;
+    this.direction = direction ?? 'left';
+    this.rounds = rounds ?? 1;
+    this.picking = new EveryPlayer<P>({
+      name: '__drafter__',
+      do: new ForLoop<number>({
+        name: '__picks__',
+        initial: 0,
+        next: n => n + 1,
+        while: n => n < this.pickCount(),
+        do: new ActionStep({
+          actions: [pick],
+          prompt,
+          condition: ({ __drafter__: player }) => this.pack(player).length > 0,
+        }),
+      }),
+    });
+  }
+
+  reset() {
+    this.setPosition({ round: 1, picking: false });
+  }
+
+  thisStepArgs() {
+    if (this.name && this.position) {
+      return {[this.name]: { round: this.position.round, direction: this.roundDirection() }};
+    }
+  }
+
+  // the first round passes in the given direction, and each round after in the other
+  roundDirection(): 'left' | 'right' {
+    if (this.position.round % 2) return this.direction;
+    return this.direction === 'left' ? 'right' : 'left';
+  }
+
+  pickCount(): number {
+    return typeof this.picks === 'function' ? this.picks(this.flowStepArgs()) : this.picks;
+  }
+
+  // the players drafting, in turn order
+  drafters(): P[] {
+    const players = this.gameManager.players as PlayerCollection<P>;
+    return players.active().sort((a, b) => players.turnOrderOf(a) - players.turnOrderOf(b));
+  }
+
+  // the pieces in the pack a player holds
+  pack(player: P): Piece<any>[] {
+    const pack = this.packs(player);
+    return pack.all(Piece, piece => piece.container() === pack);
+  }
+
+  // only the player holding a pack can see it
+  showPacks() {
+    for (const player of this.drafters()) {
+      for (const piece of this.pack(player)) piece.showOnlyTo(player);
+    }
+  }
+
+  // pass each pack to the next player, left being the next in turn order
+  passPacks() {
+    const drafters = this.drafters();
+    const packs = drafters.map(player => this.pack(player));
+    const offset = this.roundDirection() === 'left' ? 1 : drafters.length - 1;
+    drafters.forEach((_, i) => {
+      const to = drafters[(i + offset) % drafters.length];
+      for (const piece of packs[i]) piece.putInto(this.packs(to));
+    });
+    this.showPacks();
+  }
+
+  currentBlock() {
+    return this.position.picking ? this.picking : this.block;
+  }
+
+  // once the packs are dealt, players pick from them and pass them until they
+  // are all empty
+  advance() {
+    const { round, picking } = this.position;
+    if (!picking) {
+      this.showPacks();
+      this.setPosition({ round, picking: true });
+      return FlowControl.ok;
+    }
+
+    this.passPacks();
+    if (this.drafters().some(player => this.pack(player).length)) {
+      this.setPosition({ round, picking: true });
+      return FlowControl.ok;
+    }
+    if (round === this.rounds) return FlowControl.complete;
+    this.setPosition({ round: round + 1, picking: false });
+    return FlowControl.ok;
+  }
+
+  allSteps() {
+    return [this.picking, ...(this.block ? (this.block instanceof Array ? this.block : [this.block]) : [])];
+  }
+
+  toString(): string {
+    return `draft${this.name ? ":" + this.name : ""} (round ${this.position?.round}${this.block instanceof Array ? ', item #' + this.sequence : ''})`;
+  }
+
+  visualize(top: Flow) {
+    return this.visualizeBlocks({
+      type: 'draft',
+      top,
+      blocks: {
+        deal: this.block ? (this.block instanceof Array ? this.block : [this.block]) : undefined,
+        pick: [this.picking],
+      },
+      block: this.position?.picking ? 'pick' : 'deal',
+      position: this.position?.round,
+    });
+  }
+}
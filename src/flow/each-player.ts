@@ -1,4 +1,5 @@
 import ForLoop from './for-loop.js';
+import { FlowControl } from './enums.js';
 import { Player } from '../player/index.js';
 import { serializeSingleArg, deserializeSingleArg } from '../action/utils.js';
 
@@ -9,13 +10,14 @@ export default class EachPlayer<P extends Player> extends ForLoop<P> {
   continueUntil?: (p: P) => boolean;
   turns?: number;
 
-  constructor({ name, startingPlayer, nextPlayer, turns, continueUntil, do: block }: {
+  constructor({ name, startingPlayer, nextPlayer, turns, continueUntil, do: block, freeActions }: {
     name: string,
     startingPlayer?: ((a: FlowArguments) => P) | P,
     nextPlayer?: (p: P) => P,
     turns?: number,
     continueUntil?: (p: P) => boolean,
     do: FlowDefinition,
+    freeActions?: ConstructorParameters<typeof Flow>[0]['freeActions'],
   }) {
     let initial: (r: Record<any, any>) => P
     if (startingPlayer) {
@@ -23,20 +25,34 @@ export default class EachPlayer<P extends Player> extends ForLoop<P> {
     } else {
       initial = () => this.gameManager.players[0] as P;
     }
-    let next = (player: P) => (nextPlayer ? nextPlayer(player) : this.gameManager.players.after(player)) as P;
+    // eliminated players are skipped in advance() but still count toward the
+    // number of turns
+    let next = (player: P) => (nextPlayer ? nextPlayer(player) : this.gameManager.players[(this.gameManager.players.turnOrderOf(player) + 1) % this.gameManager.players.length]) as P;
 
     super({
       name,
       initial,
       next,
       while: () => true,
-      do: block
+      do: block,
+      freeActions,
     });
 
     this.whileCondition = position => continueUntil !== undefined ? !continueUntil(position.value) : position.index < this.gameManager.players.length * (this.turns || 1)
     this.turns = turns;
   }
 
+  reset() {
+    super.reset();
+    if (this.position.index !== -1 && this.position.value?.eliminated) this.advance();
+  }
+
+  advance() {
+    let result = super.advance();
+    while (result === FlowControl.ok && this.position.value?.eliminated) result = super.advance();
+    return result;
+  }
+
   setPosition(position: typeof this.position, sequence?: number, reset=true) {
     if (position.value && position.value.position !== this.position?.value.position) {
       this.gameManager.players.setCurrent(position.value);
@@ -1,3 +1,5 @@
+import { gameContext } from '../context.js';
+
 /**
  * Functions for interrupting flows
  *
@@ -64,10 +66,9 @@ type LoopInterruptSignal = { signal: InterruptControl.repeat | InterruptControl.
 export type SubflowSignal = { signal: InterruptControl.subflow, data: {name: string, args?: Record<string, any>} }
 export type InterruptSignal = LoopInterruptSignal | SubflowSignal
 
-/** @internal */
-export const interruptSignal: InterruptSignal[] = [];
-
 function interrupt({ signal, data }: InterruptSignal) {
+  const interruptSignal = gameContext()?.interruptSignal;
+  if (!interruptSignal) throw Error('Do can only be used while a game is being played');
   if (signal === InterruptControl.subflow) {
     if (interruptSignal.every(s => s.signal === InterruptControl.subflow)) {
       interruptSignal.push({data, signal}); // subflows can be queued but will not override loop interrupt
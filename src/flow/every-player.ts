@@ -1,34 +1,45 @@
 import Flow from './flow.js';
+import ActionStep from './action-step.js';
 import { FlowControl } from './enums.js';
+import { deserializeObject, serializeObject } from '../action/utils.js';
 
 import type { FlowDefinition, FlowBranchNode, FlowBranchJSON } from './flow.js';
 import type { Player, PlayerCollection } from '../player/index.js';
 import type { Argument } from '../action/action.js';
 import type { SubflowSignal, InterruptSignal } from './enums.js';
 
-export type EveryPlayerPosition = {positions: FlowBranchJSON[][], sequences: number[], completed: (boolean | undefined)[]};
+export type EveryPlayerPosition = {
+  positions: FlowBranchJSON[][],
+  sequences: number[],
+  completed: (boolean | undefined)[],
+  commitments?: Record<number, {name: string, args: Record<string, any>}>, // sealed moves by player position, serialized by element id
+};
 
 export default class EveryPlayer<P extends Player> extends Flow {
   position: EveryPlayerPosition;
   players?: P[];
   value: number; // player temporarily looking at
   completed: (boolean | undefined)[] = [];
+  sealed: boolean;
   block: FlowDefinition;
   type: FlowBranchNode['type'] = 'parallel';
 
-  constructor({ players, do: block, name }: {
+  constructor({ players, do: block, name, sealed, freeActions }: {
     players?: P[],
     do: FlowDefinition,
-    name?: string
+    name?: string,
+    sealed?: boolean,
+    freeActions?: ConstructorParameters<typeof Flow>[0]['freeActions'],
   }) {
-    super({ do: block, name });
+    super({ do: block, name, freeActions });
     this.players = players;
+    this.sealed = sealed ?? false;
   }
 
   reset() {
     this.value = -1;
     this.completed = [];
-    this.setPosition({positions: [], sequences: [], completed: []});
+    this.setPosition({positions: [], sequences: [], completed: [], ...(this.sealed && { commitments: {} })});
   }
 
   thisStepArgs() {
@@ -67,6 +78,7 @@ export default class EveryPlayer<P extends Player> extends Flow {
       type: this.type,
       position: {positions: [], sequences: this.position.sequences, completed: this.completed}
     };
+    if (this.position.commitments) branch.position.commitments = this.position.commitments;
     if (this.name) branch.name = this.name;
 
     for (let i = 0; i !== this.getPlayers().length; i++) {
@@ -88,7 +100,7 @@ export default class EveryPlayer<P extends Player> extends Flow {
       // not looking at an individual player. set game state to accept all players
       const players: P[] = [];
       for (let i = 0; i !== this.getPlayers().length; i++) {
-        if (this.completed[i] === false) players.push(this.getPlayers()[i]);
+        if (this.completed[i] === false && !this.getPlayers()[i].eliminated) players.push(this.getPlayers()[i]);
       }
       this.gameManager.players.setCurrent(players);
     }
@@ -117,10 +129,57 @@ export default class EveryPlayer<P extends Player> extends Flow {
   }): string | SubflowSignal['data'][] | undefined {
     const player = this.getPlayers().findIndex(p => p.position === move.player);
     if (player < 0) throw Error(`Cannot process action from ${move.player}`);
-    return this.withPlayer(player, () => {
-      this.completed[player] = undefined;
-      return super.processMove(move);
+    if (!this.sealed) {
+      return this.withPlayer(player, () => {
+        this.completed[player] = undefined;
+        return super.processMove(move);
+      }, true);
+    }
+
+    // hold the move as a commitment until all players have committed
+    const error = this.withPlayer(player, () => {
+      const step = this.step instanceof Flow ? this.step.currentProcessor() : undefined;
+      if (!(step instanceof ActionStep)) throw Error(`Cannot process action from ${move.player}`);
+      const error = step.validateMove(move);
+      if (error) return error;
+      this.position.commitments![move.player] = { name: move.name, args: serializeObject(move.args, false) };
+      this.completed[player] = true;
     }, true);
+    if (error) return error;
+    this.gameManager.hideMoveArgs(move.player);
+
+    if (this.getPlayers().some((p, i) => this.completed[i] === false && !p.eliminated)) return;
+    return this.resolveCommitments();
+  }
+
+  // process all commitments in player order. a move that is no longer valid
+  // once the moves before it have taken effect is discarded and that player
+  // must act again
+  resolveCommitments(): SubflowSignal['data'][] | undefined {
+    const commitments = this.position.commitments!;
+    this.position.commitments = {};
+    let subflows: SubflowSignal['data'][] = [];
+    for (let i = 0; i !== this.getPlayers().length; i++) {
+      const player = this.getPlayers()[i];
+      const commitment = commitments[player.position];
+      if (!commitment) continue;
+      const move = {
+        player: player.position,
+        name: commitment.name,
+        args: deserializeObject(commitment.args, this.gameManager.game) as Record<string, Argument>,
+      };
+      const result = this.gameManager.inContextOfPlayer(player, () => this.withPlayer(i, () => {
+        this.completed[i] = undefined;
+        return super.processMove(move);
+      }, true));
+      if (typeof result === 'string') {
+        console.debug(`Sealed move ${move.name} from player #${move.player} discarded: ${result}`);
+        this.gameManager.game.messageTo(player, 'Your move could not be made after the moves before it and was discarded: {{reason}}', { reason: result });
+      } else if (result) {
+        subflows = subflows.concat(result);
+      }
+    }
+    return subflows.length ? subflows : undefined;
   }
 
   // intercept super.playOneStep so a single branch doesn't signal complete
@@ -129,6 +188,11 @@ export default class EveryPlayer<P extends Player> extends Flow {
     // step through each player over top of the normal super stepping
     const player = this.getPlayers().findIndex((_, p) => this.completed[p] === undefined);
 
+    if (player !== -1 && this.getPlayers()[player].eliminated) {
+      this.completed[player] = true;
+      return FlowControl.ok;
+    }
+
     if (player !== -1) {
       // run for next player without a resolution
       return this.withPlayer(player, () => {
@@ -141,7 +205,7 @@ export default class EveryPlayer<P extends Player> extends Flow {
     }
 
     // no more players to step through. return the all-complete
-    return this.completed.every(r => r) ? FlowControl.complete : this;
+    return this.getPlayers().every((p, i) => this.completed[i] || p.eliminated) ? FlowControl.complete : this;
   }
 
   toString(): string {
@@ -1,5 +1,6 @@
-import { InterruptControl, interruptSignal, FlowControl } from './enums.js';
+import { InterruptControl, FlowControl } from './enums.js';
 import { Do } from './enums.js';
+import { runInContext } from '../context.js';
 
 import type { InterruptSignal, SubflowSignal } from './enums.js';
 import type GameManager from '../game-manager.js';
@@ -10,7 +11,11 @@ import type { ForEachPosition } from './for-each.js';
 import type { SwitchCasePostion } from './switch-case.js';
 import type { ActionStepPosition } from './action-step.js';
 import type { EveryPlayerPosition } from './every-player.js';
-import type { Argument, ActionStub } from '../action/action.js';
+import type { AuctionPosition } from './auction.js';
+import type { SealedAuctionPosition } from './sealed-auction.js';
+import type { DraftPosition } from './draft.js';
+import type { PlayTrickPosition } from './play-trick.js';
+import type { ActionStub, Argument } from '../action/action.js';
 import type WhileLoop from './while-loop.js';
 import type { Serializable } from '../action/utils.js';
 
@@ -80,13 +85,22 @@ export type FlowBranchNode = ({
 } | {
   type: 'switch-case',
   position: SwitchCasePostion<any>
+} | {
+  type: 'auction',
+  position: AuctionPosition | SealedAuctionPosition
+} | {
+  type: 'draft',
+  position: DraftPosition
+} | {
+  type: 'trick',
+  position: PlayTrickPosition
 }) & {
   name?: string,
   sequence?: number,
 }
 
 export type FlowBranchJSON = ({
-  type: 'main' | 'action' | 'loop' | 'foreach' | 'switch-case' | 'parallel'
+  type: 'main' | 'action' | 'loop' | 'foreach' | 'switch-case' | 'parallel' | 'auction' | 'draft' | 'trick'
   position?: any,
 }) & {
   name?: string,
@@ -94,7 +108,7 @@ export type FlowBranchJSON = ({
 }
 
 export type Position = (
-  ActionStepPosition | ForLoopPosition<any> | WhileLoopPosition | ForEachPosition<any> | SwitchCasePostion<any> | EveryPlayerPosition
+  ActionStepPosition | ForLoopPosition<any> | WhileLoopPosition | ForEachPosition<any> | SwitchCasePostion<any> | EveryPlayerPosition | AuctionPosition | SealedAuctionPosition | DraftPosition | PlayTrickPosition
 )
 
 export type FlowVisualization = {
@@ -120,10 +134,20 @@ export default class Flow {
   top: Flow;
   parent?: Flow;
   gameManager: GameManager;
+  freeActions?: { // actions that may be taken at any point within this flow, see Game#defineFreeActions
+    name: string,
+    prompt?: string | ((args: Record<string, any>) => string),
+    args?: Record<string, Argument> | ((args: Record<string, any>) => Record<string, Argument>),
+  }[];
 
-  constructor({ name, do: block }: { name?: string, do?: FlowDefinition }) {
+  constructor({ name, do: block, freeActions }: {
+    name?: string,
+    do?: FlowDefinition,
+    freeActions?: (string | NonNullable<Flow['freeActions']>[number])[],
+  }) {
     this.name = name;
     this.block = block;
+    this.freeActions = freeActions?.map(a => typeof a === 'string' ? {name: a} : a);
     // each subflow can set itself as top because they will be copied later by each parent as it loads its subflows
     this.top = this;
   }
@@ -218,17 +242,46 @@ export default class Flow {
     actions: ActionStub[],
     continueIfImpossible?: boolean,
     skipIf: 'always' | 'never' | 'only-one';
+    undo?: 'always' | 'until-reveal' | 'never';
+    timeLimit?: { turn?: number, bank?: number, onTimeout?: 'pass' | 'random' | 'forfeit' };
   } | undefined {
     return this.currentProcessor()?.actionNeeded(player);
   }
 
   processMove(move: NonNullable<ActionStepPosition>): string | SubflowSignal['data'][] | undefined {
-    interruptSignal.splice(0);
+    this.gameManager.interruptSignal.splice(0);
     const step = this.currentProcessor();
     if (!step) throw Error(`Cannot process action currently ${JSON.stringify(this.branchJSON())}`);
     return step.processMove(move);
   }
 
+  // the free actions of this flow and of all the flows it is currently within
+  currentFreeActions(): ActionStub[] {
+    const actions: ActionStub[] = (this.freeActions ?? []).map(action => ({
+      name: action.name,
+      prompt: typeof action.prompt === 'function' ? action.prompt(this.flowStepArgs()) : action.prompt,
+      args: typeof action.args === 'function' ? action.args(this.flowStepArgs()) : action.args,
+    }));
+    return this.step instanceof Flow ? actions.concat(this.step.currentFreeActions()) : actions;
+  }
+
+  // process a free action. the flow stays where it is, but the action may
+  // enter a subflow
+  processFreeAction(move: NonNullable<ActionStepPosition>): string | SubflowSignal['data'][] | undefined {
+    const gameManager = this.gameManager;
+    gameManager.interruptSignal.splice(0);
+    if (!gameManager.players.currentPosition.includes(move.player)) {
+      throw Error(`Move ${move.name} from player #${move.player} not allowed. Current players: #${gameManager.players.currentPosition.join('; ')}`);
+    }
+    const player = gameManager.players.atPosition(move.player)!;
+    const error = runInContext(gameManager, () => gameManager.getAction(move.name, player)._process(player, move.args));
+    if (error) return error;
+
+    const interrupt = gameManager.interruptSignal.splice(0);
+    if (interrupt[0]?.signal === InterruptControl.subflow) return (interrupt as SubflowSignal[]).map(s => s.data);
+    if (interrupt[0]) throw Error("Cannot use Do.repeat, Do.continue or Do.break in a free action");
+  }
+
   getStep(name: string): Flow | undefined {
     if (this.name === name) {
       this.validateNoDuplicate();
@@ -252,9 +305,10 @@ export default class Flow {
    */
   playOneStep(): InterruptSignal[] | FlowControl | Flow {
     const step = this.step;
+    const { interruptSignal } = this.gameManager;
     let result: InterruptSignal[] | FlowControl | Flow = FlowControl.complete;
     if (step instanceof Function) {
-      if (!interruptSignal[0]) step(this.flowStepArgs());
+      if (!interruptSignal[0]) runInContext(this.gameManager, () => step(this.flowStepArgs()));
       result = FlowControl.complete;
       if (interruptSignal[0] && interruptSignal[0].signal !== InterruptControl.subflow) result = interruptSignal.splice(0);
     } else if (step instanceof Flow) {
@@ -281,6 +335,7 @@ export default class Flow {
 
   // play until action required (returns ActionStep) or flow complete (undefined) or subflow started {name, args}
   play() {
+    const { interruptSignal } = this.gameManager;
     interruptSignal.splice(0);
     let step;
     do {
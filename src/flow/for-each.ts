@@ -14,17 +14,19 @@ export default class ForEach<T extends Serializable> extends ForLoop<T> {
   whileCondition: (position: ForEachPosition<T>) => boolean;
   type: FlowBranchNode['type'] = 'foreach';
 
-  constructor({ name, collection, do: block }: {
+  constructor({ name, collection, do: block, freeActions }: {
     name: string,
     collection: ((a: FlowArguments) => T[]) | T[],
-    do: FlowDefinition
+    do: FlowDefinition,
+    freeActions?: ConstructorParameters<typeof Flow>[0]['freeActions'],
   }) {
     super({
       name,
       initial: () => ((typeof collection === 'function') ? collection(this.flowStepArgs()) : collection)[0],
       next: () => this.position.collection[this.position.index + 1],
       while: () => true,
-      do: block
+      do: block,
+      freeActions,
     });
     this.collection = collection;
     this.whileCondition = position => position.index >= 0 && position.index < position.collection.length;
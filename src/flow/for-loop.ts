@@ -14,14 +14,15 @@ export default class ForLoop<T = Serializable> extends WhileLoop {
   next: (a: T) => T;
   type: FlowBranchNode['type'] = 'loop';
 
-  constructor({ name, initial, next, do: block, while: whileCondition }: {
+  constructor({ name, initial, next, do: block, while: whileCondition, freeActions }: {
     name: string,
     initial: ((a: FlowArguments) => T) | T,
     next: (a: T) => T,
     while: (a: T) => boolean,
-    do: FlowDefinition
+    do: FlowDefinition,
+    freeActions?: ConstructorParameters<typeof Flow>[0]['freeActions'],
   }) {
-    super({ do: block, while: () => true });
+    super({ do: block, while: () => true, freeActions });
     this.name = name;
     this.initial = initial;
     this.next = next;
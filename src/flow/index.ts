@@ -6,8 +6,15 @@ import EachPlayer from './each-player.js';
 import SwitchCase from './switch-case.js';
 import IfElse from './if-else.js';
 import EveryPlayer from './every-player.js';
+import ReactionWindow from './reaction-window.js';
+import Auction from './auction.js';
+import SealedAuction from './sealed-auction.js';
+import Draft from './draft.js';
+import PlayTrick from './play-trick.js';
 
 import type { Serializable } from '../action/utils.js';
+import type { Player } from '../player/index.js';
+import type { Piece } from '../board/index.js';
 import { FlowStep } from './flow.js';
 import { Do, FlowControl } from './enums.js';
 export {
@@ -19,6 +26,11 @@ export {
   SwitchCase,
   IfElse,
   EveryPlayer,
+  ReactionWindow,
+  Auction,
+  SealedAuction,
+  Draft,
+  PlayTrick,
   Do,
   FlowControl
 };
@@ -95,6 +107,26 @@ export type { FlowStep, FlowDefinition, FlowArguments } from './flow.js';
  * action.condition or due to no valid selections being current available in the
  * game.
  *
+ * @param options.undo - One of 'always', 'until-reveal' or 'never'. If
+ * provided, this overrides the `undo` policy of the actions in this step. See
+ * {@link Game#action}.
+ *
+ * @param options.timeLimit - Include this option to limit how long players may
+ * take on this step. Times are in milliseconds.
+ *
+ * <ul>
+ * <li> turn: Time allowed each time a player reaches this step before their
+ * time bank starts being used (Default 0)
+ * <li> bank: Time bank given to each player the first time they reach a timed
+ * step. Any time used beyond the `turn` allowance is taken from the bank,
+ * which is kept for the rest of the game and shared by all timed steps
+ * (Default 0)
+ * <li> onTimeout: One of 'pass', 'random' or 'forfeit' (Default 'pass'). What
+ * happens when a player runs out of time. 'pass' skips this step for the
+ * player, 'random' plays a random legal move for them and 'forfeit' ends the
+ * game with all other players as winners.
+ * </ul>
+ *
  * @category Flow
  */
 export const playerActions = (options: ConstructorParameters<typeof ActionStep>[0]) => new ActionStep(options);
@@ -114,6 +146,10 @@ export const playerActions = (options: ConstructorParameters<typeof ActionStep>[
  * when the loop begins, it will be skipped entirely. The condition will be
  * evaluated at the start of each loop to determine whether it should continue.
  *
+ * @param options.freeActions - Actions that the current players may take at any
+ * point within this loop, as well as the actions of the step they are at. See
+ * {@link Game#defineFreeActions}.
+ *
  * @example
  * whileLoop({ while: () => !bag.isEmpty(), do: (
  *   playerActions({ actions: {
@@ -167,6 +203,9 @@ export const loop = (...block: FlowStep[]) => new WhileLoop({do: block, while: (
  * skipped entirely. The condition will be evaluates at the start of each loop
  * to determine whether it should continue.
  *
+ * @param options.freeActions - Actions that the current players may take at any
+ * point within this loop. See {@link whileLoop}.
+ *
  * @example
  * forLoop({
  *   name: 'x',
@@ -200,6 +239,9 @@ export const forLoop = <T = Serializable>(options: ConstructorParameters<typeof
  * used up to this point in the flow and return the collection Array. This
  * expression is evaluated *only once* at the start of the loop.
  *
+ * @param options.freeActions - Actions that the current players may take at any
+ * point within this loop. See {@link whileLoop}.
+ *
  * @example
  * forEach({ name: 'card', collection: () => deck.all(Card), do: [
  *   // show each card from the deck to player in turn
@@ -243,6 +285,13 @@ export const forEach = <T extends Serializable>(options: ConstructorParameters<t
  * provided condition is true. This function accepts the player for the current
  * loop as its only argument.
  *
+ * @param options.freeActions - Actions that the player may take at any point
+ * during their turn, as well as the actions of the step they are at, e.g. a
+ * trade or looking through a discard pile. Each is either the name of an
+ * action, or an object with the `name`, `prompt` and `args` as in {@link
+ * playerActions}. Taking one of these does not complete the player's current
+ * step. See {@link Game#defineFreeActions}.
+ *
  * @example
  * eachPlayer({ name: 'biddingPlayer', do: // each player in turn has a chance to bid
  *   playerActions({ actions: [ 'bid', 'pass' ] })
@@ -328,6 +377,15 @@ export const switchCase = <T extends Serializable>(options: ConstructorParameter
  * @param options.players - Declare the players to perform this `do`. If not
  * specified, this will be all players.
  *
+ * @param options.sealed - If true, each move is held as a sealed commitment
+ * that other players cannot see, rather than taking effect right away. Once
+ * every player has committed, the moves are all processed together in the order
+ * of `players`. A move that is no longer valid by then is discarded, and that
+ * player is sent a message saying why and must act again.
+ *
+ * @param options.freeActions - Actions that each player may take at any point
+ * while they are within this `do`. See {@link Game#defineFreeActions}.
+ *
  * @example
  * everyPlayer({ name: 'passCardPlayer', do: ( // each player selects a card from hand or passes
  *   playerActions({ actions: [ 'selectCard', 'pass' ]}),
@@ -336,3 +394,235 @@ export const switchCase = <T extends Serializable>(options: ConstructorParameter
  * @category Flow
  */
 export const everyPlayer = (options: ConstructorParameters<typeof EveryPlayer>[0]) => new EveryPlayer(options);
+
+/**
+ * Give other players a chance to respond out of turn, e.g. to block an attack
+ * or to counter a spell. Place this in the `do` of the action that may be
+ * responded to. Each player in turn is offered the reactions or may pass. A
+ * player's response is resolved before the next player is asked. Players that
+ * have no possible reaction are not asked. Once every player has been asked,
+ * the players that were acting when the window opened continue the flow.
+ *
+ * Since a reaction may have its own `do`, a response can open a further
+ * reaction window, e.g. to counter the counter. Calling {@link Do|Do.break}
+ * while resolving a response closes the window without asking the remaining
+ * players.
+ *
+ * @param options.name - The player responding will be added to the {@link
+ * FlowArguments} under a key with this name.
+ *
+ * @param options.actions - The reactions that players may take, in the same
+ * form as the `actions` of {@link playerActions}.
+ *
+ * @param options.players - The players that may respond, in order of
+ * priority, or a function returning these. If not specified, this is all
+ * other players in turn order, starting after the player who is acting.
+ *
+ * @param options.prompt - A prompt for choosing between the reactions, as in
+ * {@link playerActions}.
+ *
+ * @param options.description - A description of responding from a 3rd person
+ * perspective, as in {@link playerActions}.
+ *
+ * @param options.pass - The prompt for declining to respond (Default "Pass").
+ *
+ * @example
+ * playerActions({ actions: [
+ *   { name: 'attack', do: reactionWindow({ name: 'defender', actions: [
+ *     { name: 'block', do: reactionWindow({ name: 'attacker', actions: ['feint'] }) }
+ *   ]})}
+ * ]});
+ *
+ * @category Flow
+ */
+export const reactionWindow = (options: ConstructorParameters<typeof ReactionWindow>[0]) => new ReactionWindow(options);
+
+/**
+ * Hold an open ascending auction. Players bid in turn, each bid higher than
+ * the last, until all but the high bidder have passed. A player that passes is
+ * out of the auction. Once bidding is over, the `do` is run, with the winner and
+ * price available in the {@link FlowArguments}.
+ *
+ * Bids are made with an action from {@link Game#defineActions} that chooses the
+ * amount with {@link Action#chooseNumber}. The action receives the minimum bid
+ * allowed in the arg `minimum`, which can be used as the `min` of the choice.
+ * Bids below the minimum are rejected. The action should not move the price
+ * itself, e.g. paying should happen in the `do`.
+ *
+ * @param options.name - An object containing the `winner` and `price` of the
+ * high bid so far, and the `bidder` to bid next, will be added to the {@link
+ * FlowArguments} under a key with this name. `winner` is undefined if every
+ * player passed.
+ *
+ * @param options.bid - The name of the action for bidding.
+ *
+ * @param options.amount - The name of the choice in the bid action for the
+ * amount bid (Default "amount").
+ *
+ * @param options.players - The players bidding, in bidding order, or a
+ * function returning these. If not specified, this is all players in turn
+ * order, starting with the player who is acting.
+ *
+ * @param options.minimum - The minimum opening bid, or a function returning
+ * this (Default 1).
+ *
+ * @param options.increment - The minimum amount each bid must raise the last
+ * (Default 1).
+ *
+ * @param options.prompt - A prompt for bidding, as in {@link playerActions}.
+ *
+ * @param options.pass - The prompt for passing (Default "Pass").
+ *
+ * @param options.do - The part that runs once bidding is over. This can contain
+ * any type of {@link FlowDefintion}, a list of functions, or more Flow
+ * commands.
+ *
+ * @example
+ * auction({ name: 'auction', bid: 'bid', increment: 5, do: ({ auction: { winner, price } }) => {
+ *   if (winner) winner.pay(price);
+ * }});
+ *
+ * @category Flow
+ */
+export const auction = (options: ConstructorParameters<typeof Auction>[0]) => new Auction(options);
+
+/**
+ * Hold a sealed-bid auction. As in {@link everyPlayer}, all players bid at
+ * once, in any order, and each may bid once or pass. Bids are sealed as in
+ * {@link everyPlayer} with `sealed`, so no player can see the amounts bid until
+ * every player has bid. The highest bid then wins, with ties
+ * going to the player first in the order of `players`, and the `do` is run
+ * with the winner and price available in the {@link FlowArguments}.
+ *
+ * Bids are made with an action as in {@link auction}. The bid actions are only
+ * processed once every player has bid, so any messages they send appear then.
+ *
+ * @param options.name - An object containing the `winner` and `price` will be
+ * added to the {@link FlowArguments} under a key with this name once bidding is
+ * over. `winner` is undefined if every player passed.
+ *
+ * @param options.bid - The name of the action for bidding.
+ *
+ * @param options.amount - The name of the choice in the bid action for the
+ * amount bid (Default "amount").
+ *
+ * @param options.players - The players bidding. If not specified, this will be
+ * all players.
+ *
+ * @param options.minimum - The minimum bid, or a function returning this
+ * (Default 1).
+ *
+ * @param options.prompt - A prompt for bidding, as in {@link playerActions}.
+ *
+ * @param options.pass - The prompt for passing (Default "Pass").
+ *
+ * @param options.do - The part that runs once every player has bid.
+ *
+ * @example
+ * sealedAuction({ name: 'auction', bid: 'bid', do: ({ auction: { winner, price } }) => {
+ *   if (winner) winner.pay(price);
+ * }});
+ *
+ * @category Flow
+ */
+export const sealedAuction = (options: ConstructorParameters<typeof SealedAuction>[0]) => new SealedAuction(options);
+
+/**
+ * Draft cards by pick-and-pass. Each player holds a pack, picks from it and
+ * then passes it on, until all of the packs are empty. All players pick at once
+ * as in {@link everyPlayer}. Packs are moved from player to player
+ * automatically, and the pieces in each pack are visible only to the player
+ * holding it. Pieces that are picked remain visible only to the player that
+ * picked them until shown to others, e.g. with {@link Piece#showToAll}.
+ *
+ * Picks are made with an action from {@link Game#defineActions} that chooses a
+ * piece from the player's pack and moves it out of the pack.
+ *
+ * @param options.name - An object containing the current `round` (starting at
+ * 1) and the passing `direction` will be added to the {@link FlowArguments}
+ * under a key with this name.
+ *
+ * @param options.packs - A function that returns the pack held by a player,
+ * e.g. a {@link Space} belonging to that player.
+ *
+ * @param options.pick - The name of the action for picking.
+ *
+ * @param options.picks - The number of times each player picks from a pack
+ * before passing it, or a function returning this (Default 1).
+ *
+ * @param options.direction - The direction packs are passed in the first
+ * round, either "left" to the next player in turn order or "right" to the
+ * previous (Default "left"). The direction alternates each round.
+ *
+ * @param options.rounds - The number of rounds (Default 1). A round ends once
+ * all of the packs are empty.
+ *
+ * @param options.prompt - A prompt for picking, as in {@link playerActions}.
+ *
+ * @param options.deal - The part that runs at the start of each round, e.g. to
+ * fill the packs for that round.
+ *
+ * @example
+ * draft({
+ *   name: 'draft',
+ *   packs: player => game.first('pack', { player })!,
+ *   pick: 'pick',
+ *   rounds: 3,
+ *   deal: () => game.players.forEach(player => $.deck.firstN(7, Card).putInto(game.first('pack', { player })!)),
+ * });
+ *
+ * @category Flow
+ */
+export const draft = (options: ConstructorParameters<typeof Draft>[0]) => new Draft(options);
+
+/**
+ * Play a trick in a trick-taking game. Each player in turn order plays once to
+ * a {@link Trick}, starting with the {@link Trick#leader}, i.e. the winner of
+ * the last trick, or the first player in turn order if there was none. Once
+ * every player has played, the winner is found as in {@link
+ * Trick#winningPlay}, becomes the leader of the next trick, and the `do` is
+ * run with the winner available in the {@link FlowArguments}.
+ *
+ * Pieces are played with an action from {@link Game#defineActions} that calls
+ * {@link Trick#play}. Use {@link Trick#legalPlays} for the choices of the
+ * action to require players to follow suit.
+ *
+ * @param options.name - An object containing the `winner` will be added to the
+ * {@link FlowArguments} under a key with this name once every player has
+ * played.
+ *
+ * @param options.player - The player playing will be added to the {@link
+ * FlowArguments} under a key with this name, as in {@link eachPlayer} (Default
+ * "player").
+ *
+ * @param options.trick - The trick, or a function returning it.
+ *
+ * @param options.play - The name of the action for playing to the trick.
+ *
+ * @param options.prompt - A prompt for playing, as in {@link playerActions}.
+ *
+ * @param options.suit - A function returning the suit of a piece.
+ *
+ * @param options.rank - A function returning the rank of a piece, higher
+ * ranks winning.
+ *
+ * @param options.trump - The trump suit, or a function returning this. If not
+ * specified, there is no trump.
+ *
+ * @param options.do - The part that runs once every player has played, e.g.
+ * for the winner to collect the trick.
+ *
+ * @example
+ * loop(playTrick({
+ *   name: 'trick',
+ *   trick: $.trick,
+ *   play: 'playCard',
+ *   suit: (card: Card) => card.suit,
+ *   rank: (card: Card) => card.rank,
+ *   trump: () => game.trump,
+ *   do: ({ trick: { winner } }) => $.trick.all(Card).putInto(game.first('tricks', { player: winner })!),
+ * }));
+ *
+ * @category Flow
+ */
+export const playTrick = <T extends Piece<any>>(options: ConstructorParameters<typeof PlayTrick<Player, T>>[0]) => new PlayTrick<Player, T>(options);
@@ -0,0 +1,105 @@
+import Flow from './flow.js';
+import ActionStep from './action-step.js';
+import EachPlayer from './each-player.js';
+import { FlowControl } from './enums.js';
+
+import type { FlowArguments, FlowDefinition, FlowBranchNode } from './flow.js';
+import type { Player } from '../player/index.js';
+import type { Piece } from '../board/index.js';
+import type Trick from '../board/trick.js';
+
+export type PlayTrickPosition = {
+  playing: boolean,
+  winner?: number, // once every player has played
+};
+
+export default class PlayTrick<P extends Player, T extends Piece<any> = Piece<any>> extends Flow {
+  position: PlayTrickPosition;
+  trick: Trick<any> | ((a: FlowArguments) => Trick<any>);
+  suit: (piece: T) => string;
+  rank: (piece: T) => number;
+  trump?: string | ((a: FlowArguments) => string | undefined);
+  turns: EachPlayer<P>;
+  type: FlowBranchNode['type'] = 'trick';
+
+  constructor({ name, player, trick, play, prompt, suit, rank, trump, do: block }: {
+    name?: string,
+    player?: string,
+    trick: Trick<any> | ((a: FlowArguments) => Trick<any>),
+    play: string,
+    prompt?: string | ((args: Record<string, any>) => string),
+    suit: (piece: T) => string,
+    rank: (piece: T) => number,
+    trump?: string | ((a: FlowArguments) => string | undefined),
+    do?: FlowDefinition,
+  }) {
+    super({ name, do: block });
+    this.trick = trick;
+    this.suit = suit;
+    this.rank = rank;
+    this.trump = trump;
+    this.turns = new EachPlayer<P>({
+      name: player ?? 'player',
+      startingPlayer: () => this.getTrick().leader ?? this.gameManager.players[0] as P,
+      do: new ActionStep({ actions: [play], prompt }),
+    });
+  }
+
+  reset() {
+    this.setPosition({ playing: true });
+  }
+
+  getTrick(): Trick<any> {
+    return typeof this.trick === 'function' ? this.trick(this.flowStepArgs()) : this.trick;
+  }
+
+  winningPlay() {
+    return this.getTrick().winningPlay<T>({
+      suit: this.suit,
+      rank: this.rank,
+      trump: typeof this.trump === 'function' ? this.trump(this.flowStepArgs()) : this.trump,
+    });
+  }
+
+  thisStepArgs() {
+    if (this.name && this.position && !this.position.playing) {
+      return {[this.name]: {
+        winner: this.position.winner !== undefined ? this.gameManager.players.atPosition(this.position.winner) : undefined,
+      }};
+    }
+  }
+
+  currentBlock() {
+    return this.position.playing ? this.turns : this.block;
+  }
+
+  // the winner leads the next trick
+  advance() {
+    if (!this.position.playing) return FlowControl.complete;
+    const winner = this.winningPlay()?.player;
+    if (winner) this.getTrick().leader = winner;
+    this.setPosition({ playing: false, ...(winner && { winner: winner.position }) });
+    return FlowControl.ok;
+  }
+
+  allSteps() {
+    return [this.turns, ...(this.block ? (this.block instanceof Array ? this.block : [this.block]) : [])];
+  }
+
+  toString(): string {
+    return `play-trick${this.name ? ":" + this.name : ""}${this.block instanceof Array ? ' (item #' + this.sequence + ')' : ''}`;
+  }
+
+  visualize(top: Flow) {
+    return this.visualizeBlocks({
+      type: 'playTrick',
+      top,
+      blocks: {
+        play: [this.turns],
+        do: this.block ? (this.block instanceof Array ? this.block : [this.block]) : undefined,
+      },
+      block: this.position?.playing ? 'play' : 'do',
+      position: this.position?.winner,
+    });
+  }
+}
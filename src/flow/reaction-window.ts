@@ -0,0 +1,95 @@
+import ForEach from './for-each.js';
+import ActionStep from './action-step.js';
+import { FlowControl } from './enums.js';
+import { range } from '../utils.js';
+
+import type { FlowArguments } from './flow.js';
+import type { ForEachPosition } from './for-each.js';
+import type { Player, PlayerCollection } from '../player/index.js';
+import type Flow from './flow.js';
+
+export type ReactionWindowPosition<P> = ForEachPosition<P> & { resume: number[] };
+
+export default class ReactionWindow<P extends Player> extends ForEach<P> {
+  position: ReactionWindowPosition<P>;
+  block: ActionStep;
+
+  constructor({ name, players, actions, prompt, description, pass }: {
+    name: string,
+    players?: P[] | ((a: FlowArguments) => P[]),
+    actions: ConstructorParameters<typeof ActionStep>[0]['actions'],
+    prompt?: string | ((args: Record<string, any>) => string),
+    description?: string,
+    pass?: string,
+  }) {
+    super({
+      name,
+      collection: players ?? (() => this.responders()),
+      do: new ActionStep({
+        player: ({ [name]: player }) => player,
+        actions,
+        prompt,
+        description,
+        optional: pass ?? 'Pass',
+        condition: ({ [name]: player }) => this.canReact(player),
+      }),
+    });
+  }
+
+  // all other players in turn order, starting after the player that is acting
+  // when the window opens
+  responders(): P[] {
+    const players = this.gameManager.players as PlayerCollection<P>;
+    const current = players.allCurrent();
+    if (!current.length) return players.active();
+    const turnOrder = players.turnOrderOf(current[0]);
+    return range(1, players.length).map(i => players[(turnOrder + i) % players.length]).filter(p => !current.includes(p) && !p.eliminated);
+  }
+
+  // whether a player can take any of the reactions. players that cannot are not asked
+  canReact(player: P) {
+    if (player.eliminated) return false;
+    return this.block.actions.some(({ name, args }) => {
+      if (name === '__pass__') return false;
+      const action = this.gameManager.getAction(name, player);
+      const actionArgs = (typeof args === 'function' ? args(this.flowStepArgs()) : args) ?? {};
+      return action.isPossible(actionArgs) && action._getPendingMoves(actionArgs) !== undefined;
+    });
+  }
+
+  reset() {
+    const collection = (typeof this.collection === 'function') ? this.collection(this.flowStepArgs()) : this.collection;
+    const resume = this.gameManager.players.currentPosition;
+    this.setPosition({ index: collection.length ? 0 : -1, value: collection[0], collection, resume });
+  }
+
+  // the players that were acting when the window opened continue once it closes
+  exit(): FlowControl.complete {
+    this.gameManager.players.setCurrent(this.position.resume);
+    return super.exit();
+  }
+
+  toJSON(forPlayer=true) {
+    return { ...super.toJSON(forPlayer), resume: this.position.resume };
+  }
+
+  fromJSON(position: any) {
+    return { ...super.fromJSON(position), resume: position.resume };
+  }
+
+  toString(): string {
+    return `reaction-window${this.name ? ":" + this.name : ""} (player #${this.position?.value?.position})`;
+  }
+
+  visualize(top: Flow) {
+    return this.visualizeBlocks({
+      type: 'reactionWindow',
+      top,
+      blocks: {
+        do: [this.block]
+      },
+      block: 'do',
+      position: this.position?.value,
+    });
+  }
+}
@@ -0,0 +1,104 @@
+import Flow from './flow.js';
+import EveryPlayer from './every-player.js';
+import BidStep from './bid-step.js';
+import { FlowControl } from './enums.js';
+
+import type { FlowArguments, FlowDefinition, FlowBranchNode } from './flow.js';
+import type { Player } from '../player/index.js';
+
+export type SealedAuctionPosition = {
+  bidding: boolean,
+  winner?: number,
+  price?: number,
+};
+
+export default class SealedAuction<P extends Player> extends Flow {
+  position: SealedAuctionPosition;
+  minimum: number | ((a: FlowArguments) => number);
+  bids: EveryPlayer<P>;
+  type: FlowBranchNode['type'] = 'auction';
+
+  constructor({ name, players, bid, amount, minimum, prompt, pass, do: block }: {
+    name?: string,
+    players?: P[],
+    bid: string,
+    amount?: string,
+    minimum?: number | ((a: FlowArguments) => number),
+    prompt?: string | ((args: Record<string, any>) => string),
+    pass?: string,
+    do?: FlowDefinition,
+  }) {
+    super({ name, do: block });
+    this.minimum = minimum ?? 1;
+    this.bids = new EveryPlayer<P>({
+      players,
+      sealed: true,
+      do: new BidStep({
+        bid,
+        amount: amount ?? 'amount',
+        minimum: () => typeof this.minimum === 'function' ? this.minimum(this.flowStepArgs()) : this.minimum,
+        prompt,
+        pass,
+      }),
+    });
+  }
+
+  reset() {
+    this.setPosition({ bidding: true });
+  }
+
+  thisStepArgs() {
+    if (this.name && this.position && !this.position.bidding) {
+      return {[this.name]: {
+        winner: this.position.winner !== undefined ? this.gameManager.players.atPosition(this.position.winner) : undefined,
+        price: this.position.price,
+      }};
+    }
+  }
+
+  currentBlock() {
+    return this.position.bidding ? this.bids : this.block;
+  }
+
+  // once every player has bid, the highest bid wins. ties go to the player
+  // that comes first in the bidding order.
+  advance() {
+    if (!this.position.bidding) return FlowControl.complete;
+
+    const step = this.bids.block as BidStep;
+    let winner: number | undefined = undefined;
+    let price: number | undefined = undefined;
+    for (const branch of this.bids.position.positions) {
+      const move = branch?.[0]?.position;
+      if (move?.name !== step.bid) continue;
+      const amount = move.args[step.amount] as number;
+      if (price === undefined || amount > price) {
+        winner = move.player;
+        price = amount;
+      }
+    }
+    this.setPosition({ bidding: false, ...(winner !== undefined && { winner, price }) });
+    return FlowControl.ok;
+  }
+
+  allSteps() {
+    return [this.bids, ...(this.block ? (this.block instanceof Array ? this.block : [this.block]) : [])];
+  }
+
+  toString(): string {
+    return `sealed-auction${this.name ? ":" + this.name : ""}${this.block instanceof Array ? ' (item #' + this.sequence + ')' : ''}`;
+  }
+
+  visualize(top: Flow) {
+    return this.visualizeBlocks({
+      type: 'sealedAuction',
+      top,
+      blocks: {
+        bid: [this.bids],
+        do: this.block ? (this.block instanceof Array ? this.block : [this.block]) : undefined,
+      },
+      block: this.position?.bidding ? 'bid' : 'do',
+      position: this.position?.winner,
+    });
+  }
+}
@@ -14,11 +14,12 @@ export default class WhileLoop extends Flow {
   next?: (...a: any) => void;
   initial?: any;
 
-  constructor({ do: block, while: whileCondition }: {
+  constructor({ do: block, while: whileCondition, freeActions }: {
     while: (a: FlowArguments) => boolean,
     do: FlowDefinition,
+    freeActions?: ConstructorParameters<typeof Flow>[0]['freeActions'],
   }) {
-    super({ do: block });
+    super({ do: block, freeActions });
     this.whileCondition = () => whileCondition(this.flowStepArgs());
   }
 
@@ -40,28 +40,42 @@ export const createGame = <G extends Game>(
   const gameManager = new GameManager(playerClass, gameClass);
   const inSetup = !('board' in state);
 
-  globalThis.$ = gameManager.game._ctx.namedSpaces;
+  gameManager.inContext(() => {
+    if (options?.rseed) gameManager.setRandomSeed(options.rseed);
+    gameManager.setSettings(state.settings);
+    gameManager.players.fromJSON(state.players);
 
-  if (options?.rseed) gameManager.setRandomSeed(options.rseed);
-  gameManager.setSettings(state.settings);
-  gameManager.players.fromJSON(state.players);
+    // setup board to get all non-serialized setup (spaces, event handlers, graphs)
+    gameCreator(gameManager.game);
+    if (options?.mocks) options.mocks(gameManager.game);
 
-  // setup board to get all non-serialized setup (spaces, event handlers, graphs)
-  gameCreator(gameManager.game);
-  if (options?.mocks) options.mocks(gameManager.game);
-
-  if (options?.trackMovement) gameManager.trackMovement();
-  if (!inSetup) {
-    gameManager.sequence = state.sequence;
-    gameManager.messages = state.messages;
-    gameManager.announcements = state.announcements;
-    gameManager.game.fromJSON(state.board);
-    gameManager.players.assignAttributesFromJSON(state.players);
-    gameManager.setFlowFromJSON(state.position);
-  } else {
-    gameManager.start();
-    gameManager.players.assignAttributesFromJSON(state.players);
-  }
+    if (options?.trackMovement) gameManager.trackMovement();
+    if (!inSetup) {
+      gameManager.sequence = state.sequence;
+      gameManager.messages = state.messages;
+      gameManager.announcements = state.announcements;
+      gameManager.undo = state.undo;
+      gameManager.clocks = state.clocks ?? {};
+      gameManager.actionUses = state.actionUses ?? {};
+      gameManager.setupState = state.setup;
+      gameManager.startTime = state.startTime;
+      gameManager.history = state.history ?? [];
+      gameManager.game.fromJSON(state.board);
+      gameManager.players.assignAttributesFromJSON(state.players);
+      gameManager.setEventsFromJSON(state.events ?? [], state.eventIndex);
+      gameManager.setEffectsFromJSON(state.effects ?? []);
+      gameManager.setRankingFromJSON(state.ranking ?? []);
+      gameManager.scores = state.scores ?? {};
+      gameManager.setFlowFromJSON(state.position);
+      // the scores seen by each player are not kept in the full state
+      if (state.history) gameManager.updateScores();
+    } else {
+      gameManager.setupState = { ...state, randomSeed: options?.rseed ?? state.randomSeed };
+      gameManager.start();
+      gameManager.players.assignAttributesFromJSON(state.players);
+    }
+  });
+  gameManager.revealed = false;
 
   return gameManager;
 };
@@ -7,18 +7,28 @@ import { Action, Selection } from './action/index.js';
 import { Player, PlayerCollection } from './player/index.js';
 import Flow, { FlowBranchJSON } from './flow/flow.js';
 import ActionStep from './flow/action-step.js';
+import WhileLoop from './flow/while-loop.js';
+import EachPlayer from './flow/each-player.js';
 import { deserialize, serialize } from './action/utils.js';
+import { legalMoves } from './bot/moves.js';
+import { hashState } from './state-hash.js';
+import { recordEvent, serializeEvent, deserializeEvent } from './events.js';
+import { scrubJSON, scrubCommitments } from './scrub.js';
+import { runInContext } from './context.js';
 
 import random from 'random-seed';
 
 import type { BaseGame } from './board/game.js';
 import type { BasePlayer } from './player/player.js';
 import type { ElementClass } from './board/element.js';
-import type { PlayerState, GameUpdate, GameState } from './interface.js';
-import type { SerializedArg } from './action/utils.js';
+import type { PlayerState, GameUpdate, GameState, SetupState, PlayerRanking } from './interface.js';
+import type { GameRecordMove } from './record.js';
+import type { SerializedArg, Serializable } from './action/utils.js';
 import type { Argument, ActionStub } from './action/action.js';
 import type { ResolvedSelection } from './action/selection.js';
-import type { SubflowSignal } from './flow/enums.js';
+import type { SubflowSignal, InterruptSignal } from './flow/enums.js';
+import type { FlowStep } from './flow/flow.js';
+import type { GameEventData, RecordedGameEvent } from './events.js';
 
 // find all non-method non-internal attr's
 export type PlayerAttributes<T extends Player = Player> = {
@@ -50,19 +60,36 @@ export type SerializedMove = {
 export type Message = {
   position?: number
   body: string
+  _scrubbed?: Record<number, string> // the body seen by each player that cannot see everything it refers to
+}
+
+/**
+ * A continuous effect on the game, e.g. a discount on a player's actions or a
+ * space that is blocked. See {@link Game#addEffect}.
+ * @category Game Management
+ */
+export type Effect = {
+  name: string,
+  on?: GameElement | Player, // the element or player affected, or undefined if the effect is global
+  value?: Serializable,
+  until: string, // 'action', 'permanent' or the name of a loop
+  scope?: [string, number][], // the iteration of the loop that the effect lasts for
 }
 
 export type ActionDebug = Record<string, {
   args: Record<string, 'sel' | 'skip' | 'only-one' | 'always' | 'tree' | 'forced' | 'imp' | 'ask' | 'future'>,
   // pruned?: Record<string, Argument[]>
   impossible?: boolean
+  limit?: string // the limit on uses of the action, if it has been reached
+  branches?: number // partial moves explored to find the pending moves
 }>
 
 export type FlowStackJSON = {
   name?: string,
   args?: Record<string, any>,
   currentPosition: number[],
-  stack: FlowBranchJSON[]
+  stack: FlowBranchJSON[],
+  scope?: [string, number][], // the loops in the calling flows when this flow began
 }
 
 /**
@@ -83,6 +110,7 @@ export default class GameManager<G extends BaseGame = BaseGame, P extends BasePl
   game: G;
   settings: Record<string, any>;
   actions: Record<string, (player: P) => Action<Record<string, Argument>>>;
+  eliminationHandler?: (player: P) => void; // see Game#onEliminate
   sequence: number = 0;
   /**
    * Current game phase
@@ -93,12 +121,48 @@ export default class GameManager<G extends BaseGame = BaseGame, P extends BasePl
   messages: Message[] = [];
   announcements: string[] = [];
   intermediateUpdates: GameState[][] = [];
+  /**
+   * The player that may currently undo their last move(s) and the sequence of
+   * the state to return to
+   */
+  undo?: {position: number, sequence: number};
+  undoPolicy?: 'always' | 'until-reveal' | 'never';
+  revealed = false; // whether hidden information or randomness was revealed since the last update
+  /**
+   * Time left in each player's time bank and when their current timed turn
+   * started, keyed by player position
+   */
+  clocks: Record<number, {bank: number, started?: number}> = {};
+  now: () => number = () => Date.now(); // time source for time limits
+  timingOut?: number; // the player whose time limit fallback is being applied
+  /**
+   * The state this game was created from and all moves made since, used to
+   * create a {@link GameRecord}
+   */
+  setupState?: SetupState;
+  startTime?: number; // when the game was set up, for replaying time limits
+  history: GameRecordMove[] = [];
+  events: RecordedGameEvent[] = []; // see Game#history
+  eventIndex = 0; // index of the first of events in the whole history, if the game was set up from a player's state
+  /**
+   * Uses of actions with a limit, keyed by player position and action name,
+   * along with the iteration of the loop that they count toward
+   */
+  actionUses: Record<number, Record<string, {per: string, scope: [string, number][], uses: number}>> = {};
+  effects: Effect[] = []; // see Game#addEffect
   /**
    * If true, allows any piece to be moved or modified in any way. Used only
    * during development.
    */
   godMode = false;
   winner: P[] = [];
+  ranking: (Omit<PlayerRanking, 'position'> & {player: P})[] = []; // see Game#finishRanked
+  scoring?: {score?: (player: P) => number, summary?: (player: P) => string}; // see Game#defineScoring
+  scores: Record<number, {score?: number, summary?: string}> = {}; // score and summary of each player as of the last update as seen by everyone, keyed by position
+  playerScores: Record<number, Record<number, {score?: number, summary?: string}>> = {}; // scores as seen by each player, keyed by the position of the viewer
+  interruptSignal: InterruptSignal[] = []; // interrupts from any Do calls in the code currently running
+  possibleMoves?: Map<string, boolean>; // whether each partial move can be completed in the current state, see Action#_isPossibleWith
+  branchesExplored = 0; // partial moves explored while finding pending moves, for instrumentation
 
   constructor(playerClass: {new(...a: any[]): P}, gameClass: ElementClass<G>, elementClasses: ElementClass[] = []) {
     this.players = new PlayerCollection<P>();
@@ -117,7 +181,11 @@ export default class GameManager<G extends BaseGame = BaseGame, P extends BasePl
 
   setRandomSeed(rseed: string) {
     this.rseed = rseed;
-    this.random = random.create(rseed).random;
+    const generator = random.create(rseed).random;
+    this.random = () => {
+      this.revealed = true;
+      return generator();
+    };
     if (this.game.random) this.game.random = this.random;
   }
 
@@ -128,48 +196,55 @@ export default class GameManager<G extends BaseGame = BaseGame, P extends BasePl
 
   // start the game fresh
   start() {
-    if (this.phase === 'started') throw Error('cannot call start once started');
-    if (!this.players.length) {
-      throw Error("No players");
-    }
-    this.phase = 'started';
-    this.players.currentPosition = [...this.players].map(p => p.position)
-    this.flowState = [{stack: [], currentPosition: this.players.currentPosition}];
-    this.startFlow();
+    this.inContext(() => {
+      if (this.phase === 'started') throw Error('cannot call start once started');
+      if (!this.players.length) {
+        throw Error("No players");
+      }
+      this.phase = 'started';
+      this.players.currentPosition = [...this.players].map(p => p.position)
+      this.flowState = [{stack: [], currentPosition: this.players.currentPosition}];
+      this.startFlow();
+    });
   }
 
   play(): void {
-    if (this.phase === 'finished') return;
-    if (this.phase !== 'started') throw Error('cannot call play until started');
-
-    const result = this.flow().play();
-    if (result instanceof Flow) {
-      if ('continueIfImpossible' in result && result.continueIfImpossible) {
-        // check if move is impossible and advance here
-        const possible = this.players.allCurrent().some(player => this.getPendingMoves(player) !== undefined);
-        if (!possible) {
-          console.debug(`Continuing past playerActions "${result.name}" with no possible moves`);
-          this.flow().processMove({ player: this.players.currentPosition[0], name: '__continue__', args: {} });
-          this.play();
+    this.inContext(() => {
+      if (this.phase === 'finished') return;
+      if (this.phase !== 'started') throw Error('cannot call play until started');
+      this.possibleMoves = undefined;
+
+      const result = this.flow().play();
+      if (result instanceof Flow) {
+        if ('continueIfImpossible' in result && result.continueIfImpossible) {
+          // check if move is impossible and advance here
+          const possible = this.players.allCurrent().some(player => this.getPendingMoves(player) !== undefined);
+          if (!possible) {
+            console.debug(`Continuing past playerActions "${result.name}" with no possible moves`);
+            this.flow().processMove({ player: this.players.currentPosition[0], name: '__continue__', args: {} });
+            this.play();
+          }
         }
-      }
-      // now awaiting action
-    } else if (result) {
-      // proceed to new subflow
-      for (const flow of result.reverse()) this.beginSubflow(flow);
-      this.play();
-    } else {
-      // completed this flow, go up the stack
-      if (this.flowState.length > 1) {
-        // cede to previous flow
-        console.debug(`Completed "${this.flowState[0].name}" flow. Returning to "${this.flowState[1].name ?? 'main' }" flow`);
-        this.flowState.shift();
-        this.startFlow();
+        // now awaiting action
+        this.startClocks();
+      } else if (result) {
+        // proceed to new subflow
+        for (const flow of result.reverse()) this.beginSubflow(flow);
         this.play();
       } else {
-        this.game.finish();
+        // completed this flow, go up the stack
+        if (this.flowState.length > 1) {
+          // cede to previous flow
+          console.debug(`Completed "${this.flowState[0].name}" flow. Returning to "${this.flowState[1].name ?? 'main' }" flow`);
+          this.flowState.shift();
+          this.startFlow();
+          this.play();
+        } else {
+          this.game.finish();
+        }
       }
-    }
+      this.expireEffects();
+    });
   }
 
   flow() {
@@ -186,6 +261,8 @@ export default class GameManager<G extends BaseGame = BaseGame, P extends BasePl
   beginSubflow(flow: SubflowSignal['data']) {
     if (flow.name !== '__followup__' && flow.name !== '__main__' && !this.flows[flow.name]) throw Error(`No flow named "${flow.name}"`);
     console.debug(`Proceeding to "${flow.name}" flow${flow.args ? ` with { ${Object.entries(flow.args).map(([k, v]) => `${k}: ${v}`).join(', ')} }` : ''}`);
+    this.addEvent({ type: 'subflow', name: flow.name, args: flow.args });
+    const scope = this.flowScope();
     // capture current flow state
     this.flowState[0].stack = this.flow().branchJSON();
     this.flowState[0].currentPosition = this.players.currentPosition;
@@ -194,7 +271,8 @@ export default class GameManager<G extends BaseGame = BaseGame, P extends BasePl
       name: flow.name,
       args: serialize(flow.args),
       currentPosition: this.players.currentPosition,
-      stack: []
+      stack: [],
+      ...(scope.length && { scope }),
     });
     this.startFlow();
   }
@@ -234,38 +312,220 @@ export default class GameManager<G extends BaseGame = BaseGame, P extends BasePl
     };
     if (this.flowState[0].name) currentState.name = this.flowState[0].name;
     if (currentFlow.args) currentState.args = serialize(currentFlow.args);
+    if (this.flowState[0].scope) currentState.scope = this.flowState[0].scope;
     return [currentState, ...this.flowState.slice(1)];
   }
 
+  // the name and iteration of each named loop that the game is currently in,
+  // outermost first
+  flowScope(): [string, number][] {
+    const scope = [...(this.flowState[0]?.scope ?? [])];
+    let flow: FlowStep | undefined = this.flowState.length ? this.flow() : undefined;
+    while (flow instanceof Flow) {
+      if (flow instanceof WhileLoop && flow.name && flow.position) scope.push([flow.name, flow.position.index]);
+      flow = flow.step;
+    }
+    return scope;
+  }
+
+  // the current iteration of a named loop, as the part of the flow scope up to
+  // that loop. if no loop has the name, 'turn' is the iteration of the
+  // innermost eachPlayer, and 'round' is the pass of that eachPlayer through all
+  // the players, with its index replaced by the number of passes. the scope of
+  // an earlier event may be given in place of the current flow scope.
+  loopScope(name: string, scope = this.flowScope()): [string, number][] {
+    let loop = scope.findIndex(([n]) => n === name);
+    if (loop === -1 && (name === 'turn' || name === 'round')) {
+      loop = scope.map(([n]) => this.getFlowStep(n) instanceof EachPlayer).lastIndexOf(true);
+      if (loop === -1) throw Error(`No eachPlayer is currently in progress for the current ${name}`);
+      if (name === 'round') return [...scope.slice(0, loop), [scope[loop][0], Math.floor(scope[loop][1] / this.players.length)]];
+    }
+    if (loop === -1) throw Error(`No loop named "${name}" is currently in progress`);
+    return scope.slice(0, loop + 1);
+  }
+
+  // add an event to the history of the game. events only occur once the game
+  // has started
+  addEvent(data: GameEventData) {
+    if (this.phase !== 'started') return;
+    const event = { ...data, sequence: this.sequence, scope: this.flowScope() } as RecordedGameEvent;
+    if (this.game._ctx.player) event.player = this.game._ctx.player;
+    this.events.push(recordEvent(this.game, event));
+  }
+
+  // hide the args of the move being processed from all other players in the
+  // history of the game
+  hideMoveArgs(position: number) {
+    const event = [...this.events].reverse().find(e => e.type === 'move');
+    if (event?.type !== 'move') return;
+    const others = this.players.filter(p => p.position !== position).map(p => p.position);
+    event._hidden = { ...event._hidden, ...Object.fromEntries(Object.keys(event.args).map(arg => [`args.${arg}`, others])) };
+  }
+
+  // set the events from a state. a player's state only has the events since
+  // the state before it, starting at `index` in the whole history, which are
+  // added to the events already known
+  setEventsFromJSON(json: Record<string, any>[], index = 0) {
+    const known = index >= this.eventIndex && index <= this.eventIndex + this.events.length ? this.events.slice(0, index - this.eventIndex) : [];
+    if (!known.length) this.eventIndex = index;
+    this.events = known.concat(json.map(event => deserializeEvent(event, this.game)));
+  }
+
+  /**
+   * effect functions
+   * @internal
+   */
+
+  addEffect(effect: Omit<Effect, 'scope'>) {
+    if (effect.until === 'action' || effect.until === 'permanent') {
+      this.effects.push(effect);
+    } else {
+      this.effects.push({ ...effect, scope: this.loopScope(effect.until) });
+    }
+  }
+
+  // whether an effect still lasts. effects until the end of an action only
+  // last while it is being processed
+  isEffectActive(effect: Effect, processing = true): boolean {
+    if (effect.until === 'permanent') return true;
+    if (effect.until === 'action') return processing;
+    try {
+      return JSON.stringify(this.loopScope(effect.until)) === JSON.stringify(effect.scope);
+    } catch (e) {
+      // the loop has finished
+      return false;
+    }
+  }
+
+  // remove any effects that have ended
+  expireEffects() {
+    this.effects = this.effects.filter(effect => this.isEffectActive(effect, false));
+  }
+
+  setEffectsFromJSON(json: Record<string, any>[]) {
+    this.effects = deserialize(json, this.game) as Effect[];
+  }
+
   /**
    * state functions
    * @internal
    */
 
   getState(player?: P): GameState {
-    return {
-      players: this.players.map(p => p.toJSON() as PlayerAttributes), // TODO scrub for player
+    return this.stateSeenBy(player?.position);
+  }
+
+  // the state as seen by spectators, showing only what every player can see
+  getSpectatorState(): GameState {
+    return this.stateSeenBy(0);
+  }
+
+  // the state seen from a player position, 0 for a spectator, or the full state
+  stateSeenBy(seenBy?: number): GameState {
+    const state: GameState = {
+      players: this.players.map(p => this.scrub(p.toJSON(seenBy), seenBy) as PlayerAttributes),
       settings: this.settings,
-      position: this.flowJSON(!!player),
-      board: this.game.allJSON(player?.position),
+      position: this.scrub(seenBy === undefined ? this.flowJSON() : scrubCommitments(this.flowJSON(true), seenBy), seenBy),
+      board: this.game.allJSON(seenBy),
       sequence: this.sequence,
-      messages: this.messages.filter(m => player && (!m.position || m.position === player?.position)),
+      messages: this.messages.filter(m => seenBy !== undefined && (!m.position || m.position === seenBy)).map(
+        ({ _scrubbed, ...message }) => ({ ...message, body: _scrubbed?.[seenBy!] ?? message.body })
+      ),
       announcements: [...this.announcements],
-      rseed: player ? '' : this.rseed,
+      rseed: seenBy !== undefined ? '' : this.rseed,
+      undo: this.undo,
+      ...(Object.keys(this.clocks).length && { clocks: structuredClone(this.clocks) }),
+      ...(Object.keys(this.actionUses).length && { actionUses: structuredClone(this.actionUses) }),
+    };
+    // players only receive the events since the state before this one
+    let first = seenBy === undefined ? 0 : this.events.findIndex(event => event.sequence >= this.sequence - 1);
+    if (first === -1) first = this.events.length;
+    if (first < this.events.length) state.events = this.events.slice(first).map(event => serializeEvent(event, seenBy));
+    if (seenBy !== undefined && this.eventIndex + first) state.eventIndex = this.eventIndex + first;
+    if (this.effects.length) state.effects = this.scrub(serialize(this.effects, seenBy !== undefined), seenBy);
+    if (this.ranking.length) state.ranking = this.rankingJSON();
+    const scores = seenBy ? this.playerScores[seenBy] ?? this.scores : this.scores;
+    if (Object.keys(scores).length) state.scores = scores;
+    if (seenBy === undefined) {
+      state.setup = this.setupState;
+      if (this.startTime !== undefined) state.startTime = this.startTime;
+      state.history = [...this.history];
     }
+    return state;
+  }
+
+  // remove references to anything the viewer cannot see from JSON serialized
+  // for them
+  scrub<T>(json: T, seenBy?: number): T {
+    return seenBy === undefined ? json : scrubJSON(json, this.game, seenBy);
   }
 
   getPlayerStates(): PlayerState[] {
-    return this.players.map((p, i) => ({
-      position: p.position,
-      state: this.intermediateUpdates.length ?
-        this.intermediateUpdates.map(state => state[i]).concat([this.getState(p)]) :
-        this.getState(p)
-    }));
+    return this.players.map((p, i) => {
+      const state = this.getState(p);
+      const playerState: PlayerState = {
+        position: p.position,
+        state: this.intermediateUpdates.length ?
+          this.intermediateUpdates.map(state => state[i]).concat([state]) :
+          state,
+        hash: hashState(state),
+      };
+      // the lobby shows these to everyone
+      if (this.scores[p.position]?.score !== undefined) playerState.score = this.scores[p.position].score;
+      if (this.scores[p.position]?.summary !== undefined) playerState.summary = this.scores[p.position].summary;
+      return playerState;
+    });
+  }
+
+  // calculate the scores seen by everyone and by each player
+  updateScores() {
+    this.scores = this.inContext(() => this.calculateScores());
+    this.playerScores = {};
+    for (const player of this.players) {
+      this.playerScores[player.position] = this.inContextOfPlayer(player, () => this.calculateScores());
+    }
+  }
+
+  // calculate the score and summary of each player from the final ranking if
+  // the game is finished, or the scoring defined by the game, as seen by the
+  // player in context
+  calculateScores() {
+    const scores: Record<number, {score?: number, summary?: string}> = {};
+    for (const player of this.players) {
+      const ranking = this.ranking.find(r => r.player === player);
+      const score = ranking ? ranking.score : this.scoring?.score?.(player);
+      const summary = ranking ? ranking.summary : this.scoring?.summary?.(player);
+      if (score === undefined && summary === undefined) continue;
+      scores[player.position] = {};
+      if (score !== undefined) scores[player.position].score = score;
+      if (summary !== undefined) scores[player.position].summary = summary;
+    }
+    return scores;
+  }
+
+  rankingJSON(): PlayerRanking[] {
+    return this.ranking.map(({ player, ...ranking }) => ({ position: player.position, ...ranking }));
+  }
+
+  setRankingFromJSON(json: PlayerRanking[]) {
+    this.ranking = json.map(({ position, ...ranking }) => ({ player: this.players.atPosition(position)!, ...ranking }));
+  }
+
+  // add a move received by the interface to the history, before the update for the move is created
+  recordMove(position: number, data: SerializedMove[]) {
+    this.history.push({
+      position,
+      data,
+      sequence: this.sequence + 1,
+      messages: this.messages.map(m => m.body),
+      time: this.now(),
+    });
   }
 
   getUpdate(): GameUpdate {
+    if (this.revealed && this.undoPolicy !== 'always') this.undo = undefined;
     this.sequence += 1;
+    this.updateScores();
     if (this.phase === 'started') {
       return {
         game: {
@@ -274,6 +534,7 @@ export default class GameManager<G extends BaseGame = BaseGame, P extends BasePl
           phase: this.phase
         },
         players: this.getPlayerStates(),
+        spectator: this.getSpectatorState(),
         messages: this.messages,
       }
     }
@@ -282,9 +543,11 @@ export default class GameManager<G extends BaseGame = BaseGame, P extends BasePl
         game: {
           state: this.getState(),
           winners: this.winner.map(p => p.position),
+          ...(this.ranking.length && { ranking: this.rankingJSON() }),
           phase: this.phase
         },
         players: this.getPlayerStates(),
+        spectator: this.getSpectatorState(),
         messages: this.messages,
       }
     }
@@ -298,10 +561,18 @@ export default class GameManager<G extends BaseGame = BaseGame, P extends BasePl
   }
 
   inContextOfPlayer<T>(player: Player, fn: () => T): T {
-    const prev = this.contextualizeBoardToPlayer(player);
-    const results = fn();
-    this.contextualizeBoardToPlayer(prev);
-    return results;
+    return this.inContext(() => {
+      const prev = this.contextualizeBoardToPlayer(player);
+      const results = fn();
+      this.contextualizeBoardToPlayer(prev);
+      return results;
+    });
+  }
+
+  // run code for this game, with `$` and `Do` referring to this game rather
+  // than any other game in the same process
+  inContext<T>(fn: () => T): T {
+    return runInContext(this, fn);
   }
 
   trackMovement(track=true) {
@@ -331,6 +602,7 @@ export default class GameManager<G extends BaseGame = BaseGame, P extends BasePl
     return this.inContextOfPlayer(player, () => {
       const action = this.actions[name](player);
       action.gameManager = this;
+      action.player = player;
       action.name = name;
       return action as Action & {name: string};
     });
@@ -380,25 +652,162 @@ export default class GameManager<G extends BaseGame = BaseGame, P extends BasePl
   processMove({ player, name, args }: Move): string | undefined {
     if (this.phase === 'finished') return 'Game is finished';
     let result: string | SubflowSignal['data'][] | undefined;
+    this.possibleMoves = undefined;
     return this.inContextOfPlayer(player, () => {
       if (this.godMode && this.godModeActions()[name]) {
         const godModeAction = this.godModeActions()[name];
         result = godModeAction._process(player, args);
       } else {
-        result = this.flow().processMove({
-          name,
-          player: player.position,
-          args
-        });
+        const undoPolicy = this.getUndoPolicy(player, name);
+        const timeLimit = this.flow().actionNeeded(player)?.timeLimit;
+        const free = this.freeActions(player).some(a => a.name === name);
+        const events = this.events.length;
+        this.addEvent({ type: 'move', name, args });
+        if (free) {
+          result = this.flow().processFreeAction({ name, player: player.position, args });
+        } else {
+          result = this.flow().processMove({
+            name,
+            player: player.position,
+            args
+          });
+        }
+        if (typeof result === 'string') {
+          this.events.length = events;
+        } else {
+          this.trackUndo(player, undoPolicy);
+          this.recordUse(name, player);
+          // the player's turn continues after a free action
+          if (timeLimit && !free) this.stopClock(player, timeLimit);
+        }
       }
       console.debug(`Received move from player #${player.position} ${name}({${Object.entries(args).map(([k, v]) => `${k}: ${v}`).join(', ')}}) ${result ? (typeof result === 'string' ? '❌ ' + result : `⮕  ${result[0].name}({${Object.entries(result[0].args || {}).map(([k, v]) => `${k}: ${v}`).join(', ')}})`) : '✅'}`);
       if (result instanceof Array) {
         for (const flow of result.reverse()) this.beginSubflow(flow);
       }
+      this.expireEffects();
+      this.possibleMoves = undefined;
       return typeof result === 'string' ? result : undefined;
     });
   }
 
+  // the undo policy for a move about to be processed. the step setting takes
+  // priority over the action setting
+  getUndoPolicy(player: Player, name: string): 'always' | 'until-reveal' | 'never' {
+    const step = this.flow().actionNeeded(player);
+    if (step?.undo) return step.undo;
+    if (name === '__pass__' || name === '__continue__') return 'until-reveal';
+    return this.getAction(name, player as P).undo ?? 'until-reveal';
+  }
+
+  // record the results of a processed move for the purposes of undo
+  trackUndo(player: Player, undoPolicy: 'always' | 'until-reveal' | 'never') {
+    if (undoPolicy === 'never') {
+      this.undo = undefined;
+    } else if (this.undo?.position !== player.position) {
+      this.undo = { position: player.position, sequence: this.sequence };
+    }
+    if (undoPolicy !== 'always' || this.undoPolicy === undefined) this.undoPolicy = undoPolicy;
+  }
+
+  /**
+   * action limit functions
+   * @internal
+   */
+
+  // the number of times a player has taken an action in the current scope of its limit
+  usesOf(name: string, player: Player, per: string): number {
+    const uses = this.actionUses[player.position]?.[name];
+    if (!uses || uses.per !== per) return 0;
+    return JSON.stringify(uses.scope) === JSON.stringify(this.loopScope(per)) ? uses.uses : 0;
+  }
+
+  // count a processed move toward the limit of its action, if it has one
+  recordUse(name: string, player: Player) {
+    if (!this.actions[name]) return;
+    const limit = this.getAction(name, player as P).limit;
+    if (!limit) return;
+    const uses = this.usesOf(name, player, limit.per);
+    this.actionUses[player.position] ??= {};
+    this.actionUses[player.position][name] = { per: limit.per, scope: this.loopScope(limit.per), uses: uses + 1 };
+  }
+
+  /**
+   * time functions
+   * @internal
+   */
+
+  // start the clocks of any current players that are now at a timed step
+  startClocks() {
+    if (this.phase !== 'started') return;
+    for (const [position, clock] of Object.entries(this.clocks)) {
+      if (clock.started !== undefined && !this.timeLimit(this.players.atPosition(Number(position))!)) delete clock.started;
+    }
+    for (const player of this.players.allCurrent()) {
+      const timeLimit = this.timeLimit(player);
+      if (timeLimit) {
+        this.clocks[player.position] ??= { bank: timeLimit.bank ?? 0 };
+        this.clocks[player.position].started ??= this.now();
+      }
+    }
+  }
+
+  // charge the time taken for a completed move against the player's time bank
+  stopClock(player: Player, timeLimit: { turn?: number }) {
+    const clock = this.clocks[player.position];
+    if (clock?.started === undefined) return;
+    clock.bank = Math.max(0, clock.bank - Math.max(0, this.now() - clock.started - (timeLimit.turn ?? 0)));
+    delete clock.started;
+  }
+
+  timeLimit(player: Player) {
+    if (!player.isCurrent()) return;
+    return this.flow().actionNeeded(player)?.timeLimit;
+  }
+
+  /**
+   * Time in milliseconds that a player has left to complete their current
+   * step, or undefined if the player is not at a timed step
+   */
+  timeRemaining(player: Player): number | undefined {
+    const clock = this.clocks[player.position];
+    const timeLimit = this.timeLimit(player);
+    if (!timeLimit || clock?.started === undefined) return;
+    return Math.max(0, (timeLimit.turn ?? 0) + clock.bank - (this.now() - clock.started));
+  }
+
+  // apply the time limit fallback for a player that has run out of time
+  timeout(player: P) {
+    const timeLimit = this.timeLimit(player);
+    if (!timeLimit) throw Error(`Player #${player.position} has no time limit`);
+    this.clocks[player.position] = { bank: 0 };
+    this.game.message('{{player}} ran out of time', { player });
+
+    if (timeLimit.onTimeout === 'forfeit') {
+      this.game.finish(this.players.filter(p => p !== player));
+      return;
+    }
+
+    let move: Move | undefined;
+    if (timeLimit.onTimeout === 'random') {
+      const moves = legalMoves(this, player);
+      move = moves[Math.floor(this.random() * moves.length)];
+    }
+    if (!move) {
+      const pass = this.flow().actionNeeded(player)?.actions.some(a => a.name === '__pass__');
+      move = { player, name: pass ? '__pass__' : '__continue__', args: {} };
+    }
+    this.timingOut = player.position;
+    let error: string | undefined;
+    try {
+      error = this.processMove(move);
+    } finally {
+      this.timingOut = undefined;
+    }
+    if (error) throw Error(`Unable to process move after player #${player.position} ran out of time: ${error}`);
+    this.play();
+  }
+
   allowedActions(player: P, debug?: ActionDebug): {
     step?: string,
     prompt?: string,
@@ -415,7 +824,7 @@ export default class GameManager<G extends BaseGame = BaseGame, P extends BasePl
 
     const actionStep = this.flow().actionNeeded(player);
     if (actionStep?.actions) {
-      for (const allowedAction of actionStep.actions) {
+      for (const allowedAction of [...actionStep.actions, ...this.freeActions(player)]) {
         if (allowedAction.name === '__pass__') {
           actions.push(allowedAction);
         } else {
@@ -425,6 +834,7 @@ export default class GameManager<G extends BaseGame = BaseGame, P extends BasePl
             actions.push({ ...gameAction, ...allowedAction, player });
           } else if (debug) {
             debug[allowedAction.name] = { impossible: true, args: {} };
+            if (gameAction.usesLeft() === 0) debug[allowedAction.name].limit = `${gameAction.limit!.uses} per ${gameAction.limit!.per}`;
           }
         }
       }
@@ -441,67 +851,94 @@ export default class GameManager<G extends BaseGame = BaseGame, P extends BasePl
     };
   }
 
+  // the free actions a player may take alongside the actions of their current
+  // step. actions in the step itself are taken as part of the step, and an
+  // action declared by several flows uses the innermost declaration.
+  freeActions(player: Player): ActionStub[] {
+    if (!player.isCurrent()) return [];
+    const actionStep = this.flow().actionNeeded(player);
+    if (!actionStep) return [];
+    return this.flow().currentFreeActions().filter(
+      (action, i, actions) => !actionStep.actions.some(a => a.name === action.name) && !actions.slice(i + 1).some(a => a.name === action.name)
+    );
+  }
+
+  // whether a partial move can be completed, exploring it only once for each
+  // state of the game. moves are no longer remembered once a move is
+  // processed, the game is played or the state is replaced.
+  isPossibleMove(key: string, explore: () => boolean): boolean {
+    this.possibleMoves ??= new Map();
+    let possible = this.possibleMoves.get(key);
+    if (possible === undefined) {
+      possible = explore();
+      this.possibleMoves.set(key, possible);
+    }
+    return possible;
+  }
+
   getPendingMoves(player: P, name?: string, args?: Record<string, Argument>, debug?: ActionDebug): {step?: string, prompt?: string, moves: PendingMove[]} | undefined {
-    if (this.phase === 'finished') return;
-    const allowedActions = this.allowedActions(player, debug);
-    let possibleActions: string[] = [];
-
-    if (allowedActions.actions.length) {
-      const { step, prompt, actions, skipIf } = allowedActions;
-
-      if (!name) {
-        let pendingMoves: PendingMove[] = [];
-        for (const action of actions) {
-          if (action.name === '__pass__') {
-            possibleActions.push('__pass__');
-            pendingMoves.push({
-              name: '__pass__',
-              args: {},
-              selections: [
-                new Selection('__action__', { prompt: action.prompt, value: '__pass__' }).resolve({})
-              ]
-            });
-            if (debug) {
-              debug['__pass__'] = { args: {} };
-            }
-          } else {
-            const playerAction = this.getAction(action.name, player)
-            const args = action.args || {}
-            let submoves = playerAction._getPendingMoves(args, debug);
-            if (submoves !== undefined) {
-              possibleActions.push(action.name);
-              // no sub-selections to show so just create a prompt selection of this action
-              // if an explcit confirm is required, this would be where to add the logic for it, e.g. playerAction.explicit? => selection[0].confirm
-              if (submoves.length === 0 || skipIf === 'never' || (skipIf === 'only-one' && actions.length > 1)) {
-                submoves = [{
-                  name: action.name,
-                  prompt: action.prompt,
-                  args,
-                  selections: [
-                    new Selection('__action__', {
-                      prompt: action.prompt ?? playerAction.prompt,
-                      value: action.name,
-                      skipIf
-                    }).resolve({})
-                  ]
-                }];
+    return this.inContext(() => {
+      if (this.phase === 'finished') return;
+      const allowedActions = this.allowedActions(player, debug);
+      let possibleActions: string[] = [];
+
+      if (allowedActions.actions.length) {
+        const { step, prompt, actions, skipIf } = allowedActions;
+
+        if (!name) {
+          let pendingMoves: PendingMove[] = [];
+          for (const action of actions) {
+            if (action.name === '__pass__') {
+              possibleActions.push('__pass__');
+              pendingMoves.push({
+                name: '__pass__',
+                args: {},
+                selections: [
+                  new Selection('__action__', { prompt: action.prompt, value: '__pass__' }).resolve({})
+                ]
+              });
+              if (debug) {
+                debug['__pass__'] = { args: {} };
               }
-              pendingMoves = pendingMoves.concat(submoves);
             } else {
-              console.debug(`Action ${action.name} not allowed because no valid selections exist`);
+              const playerAction = this.getAction(action.name, player)
+              const args = action.args || {}
+              let submoves = playerAction._getPendingMoves(args, debug);
+              if (submoves !== undefined) {
+                possibleActions.push(action.name);
+                // no sub-selections to show so just create a prompt selection of this action
+                // if an explcit confirm is required, this would be where to add the logic for it, e.g. playerAction.explicit? => selection[0].confirm
+                if (submoves.length === 0 || skipIf === 'never' || (skipIf === 'only-one' && actions.length > 1)) {
+                  submoves = [{
+                    name: action.name,
+                    prompt: action.prompt,
+                    args,
+                    selections: [
+                      new Selection('__action__', {
+                        prompt: action.prompt ?? playerAction.prompt,
+                        value: action.name,
+                        skipIf
+                      }).resolve({})
+                    ]
+                  }];
+                }
+                pendingMoves = pendingMoves.concat(submoves);
+              } else {
+                console.debug(`Action ${action.name} not allowed because no valid selections exist`);
+              }
             }
           }
-        }
 
-        if (possibleActions.length) return { step, prompt, moves: pendingMoves};
+          if (possibleActions.length) return { step, prompt, moves: pendingMoves};
 
-      } else { // action provided
-        if (name === '__pass__') return { step, prompt, moves: [] };
-        const moves = this.getAction(name, player)?._getPendingMoves(args || {}, debug);
-        if (moves) return { step, prompt, moves };
+        } else { // action provided
+          if (name === '__pass__') return { step, prompt, moves: [] };
+          const moves = this.getAction(name, player)?._getPendingMoves(args || {}, debug);
+          if (moves) return { step, prompt, moves };
+        }
       }
-    }
 
-    return undefined;
+      return undefined;
+    });
   }
 }
@@ -14,12 +14,15 @@ export {
   SquareGrid,
   HexGrid,
   PieceGrid,
+  Trick,
   GameElement
 } from './board/index.js';
 
 export { Do } from './flow/index.js';
 
 export { createInterface, colors } from './interface.js';
+export { exportRecord, replayRecord } from './record.js';
+export { RandomBot, MCTSBot, MinimaxBot, legalMoves, botRandom } from './bot/index.js';
 export { times, range, shuffleArray } from './utils.js';
 export { Player };
 export { createGame } from './game-creator.js';
@@ -36,12 +39,16 @@ export { TestRunner } from './test-runner.js';
 
 import type { ElementClass } from './board/element.js';
 import type Action from './action/action.js';
+import type { Bot, Determinizer } from './bot/index.js';
+import type { GameRecord, GameRecordMove } from './record.js';
+import type { GameEvent } from './events.js';
+import type { Effect } from './game-manager.js';
 
-export type { GameManager, Action, ElementClass };
+export type { GameManager, Action, ElementClass, Bot, Determinizer, GameRecord, GameRecordMove, GameEvent, Effect };
 
 declare global {
   /**
-   * Global reference to all unique named spaces
+   * Reference to all unique named spaces in the game currently being played
    *
    * @example
    * game.create(Space, 'deck');
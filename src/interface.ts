@@ -1,5 +1,7 @@
-import { deserializeArg } from './action/utils.js';
+import { deserializeArg, serializeArg } from './action/utils.js';
 import { range } from './utils.js';
+import { diffState } from './state-patch.js';
+import { hashState } from './state-hash.js';
 import random from 'random-seed';
 
 import type { ElementJSON } from './board/element.js';
@@ -8,6 +10,10 @@ import type Player from './player/player.js';
 import type { FlowBranchJSON } from './flow/flow.js';
 import type { SetupFunction } from './game-creator.js';
 import type { SerializedArg } from './action/utils.js';
+import type GameManager from './game-manager.js';
+import type { Bot } from './bot/bot.js';
+import type { StatePatch } from './state-patch.js';
+import type { GameRecordMove } from './record.js';
 
 export type SetupState = {
   players: (PlayerAttributes & Record<string, any>)[],
@@ -15,32 +21,57 @@ export type SetupState = {
   randomSeed: string,
 }
 
+/**
+ * A player's final placement when a game is finished with {@link
+ * Game#finishRanked}. Tied players share the same `place`.
+ */
+export type PlayerRanking = {
+  position: number,
+  place: number, // 1 for first place
+  score?: number,
+  summary?: string,
+}
+
 export type GameState = {
   players: PlayerAttributes[],
   settings: Record<string, any>,
-  position: {name?: string, args?: Record<string, any>, currentPosition: number[], stack: FlowBranchJSON[]}[],
+  position: {name?: string, args?: Record<string, any>, currentPosition: number[], stack: FlowBranchJSON[], scope?: [string, number][]}[],
   board: ElementJSON[],
   sequence: number,
   rseed: string,
   messages: Message[],
   announcements: string[],
+  undo?: {position: number, sequence: number},
+  clocks?: Record<number, {bank: number, started?: number}>,
+  actionUses?: Record<number, Record<string, {per: string, scope: [string, number][], uses: number}>>,
+  events?: Record<string, any>[], // only those since the previous state in a player's state
+  eventIndex?: number, // index in the whole history of the first of events, in a player's state
+  effects?: Record<string, any>[],
+  ranking?: PlayerRanking[],
+  scores?: Record<number, {score?: number, summary?: string}>,
+  setup?: SetupState, // only in the full state
+  startTime?: number, // only in the full state
+  history?: GameRecordMove[], // only in the full state
 }
 
-type GameStartedState = {
+export type GameStartedState = {
   phase: 'started',
   currentPlayers: number[],
   state: GameState,
 }
 
-type GameFinishedState = {
+export type GameFinishedState = {
   phase: 'finished',
   winners: number[],
+  ranking?: PlayerRanking[],
   state: GameState,
 }
 
 export type PlayerState = {
   position: number
   state: GameState | GameState[] // Game state, scrubbed
+  patch?: StatePatch | StatePatch[] // Changes from the player's previous state, one for each of `state`
+  hash?: string // Hash of the final state, to verify that the player's copy of the game matches
   summary?: string
   score?: number
 }
@@ -48,25 +79,29 @@ export type PlayerState = {
 export type GameUpdate = {
   game: GameStartedState | GameFinishedState
   players: PlayerState[]
+  spectator: GameState // Game state seen by anyone not playing, scrubbed of anything hidden from any player
   messages: Message[]
 }
 
-type ReprocessHistoryResult = {
+export type ReprocessHistoryResult = {
   initialState: GameUpdate
   updates: GameUpdate[]
   error?: string
 }
 
-type SerializedInterfaceMove = {
+export type SerializedInterfaceMove = {
   position: number
   data: SerializedMove | SerializedMove[]
+  time?: number // when the move was made, for replaying time limits
 }
 
 export type GameInterface = {
   initialState: (state: SetupState) => GameUpdate
   processMove: (previousState: GameStartedState, move: SerializedInterfaceMove) => GameUpdate
   seatPlayer(players: Player[], seatCount: number): {position: number, color: string, settings: any} | null
-  reprocessHistory(setup: SetupState, moves: SerializedInterfaceMove[]): ReprocessHistoryResult
+  reprocessHistory(setup: SetupState, moves: SerializedInterfaceMove[], startTime?: number): ReprocessHistoryResult
+  undo(previousState: GameStartedState, undoState: GameStartedState, position: number): GameUpdate
+  processTimeout(previousState: GameStartedState): GameUpdate
 }
 
 export const colors = [
@@ -86,7 +121,119 @@ function advanceRseed(rseed?: string) {
   return rseed;
 }
 
-export const createInterface = (setup: SetupFunction): GameInterface => {
+// play any moves for current players that are bots until a human player is required
+function playBots(gameManager: GameManager, bots: Record<string, Bot>) {
+  for (let i = 0; gameManager.phase === 'started'; i++) {
+    const player = gameManager.players.allCurrent().find(p => p.bot);
+    if (!player) return;
+    if (i > 1000) throw Error('Bots played 1000 moves without any human player being needed');
+    const bot = bots[player.bot!];
+    if (!bot) throw Error(`No bot named "${player.bot}" for player #${player.position}`);
+
+    const move = bot.chooseMove(gameManager, player);
+    if (!move) throw Error(`Bot "${player.bot}" has no move for player #${player.position}`);
+    const error = gameManager.processMove(move);
+    if (error) throw Error(`Unable to process move from bot "${player.bot}": ${error}`);
+    gameManager.play();
+  }
+}
+
+// add the changes from each player's previous state to the update
+function addPatches(update: GameUpdate, previousStates: PlayerState[]) {
+  for (const playerState of update.players) {
+    let previous = previousStates.find(p => p.position === playerState.position)?.state as GameState | undefined;
+    if (!previous) continue;
+    const patches: StatePatch[] = [];
+    for (const state of playerState.state instanceof Array ? playerState.state : [playerState.state]) {
+      const patch = diffState(previous, state);
+      if (!patch) break;
+      patches.push(patch);
+      previous = state;
+    }
+    if (patches.length === (playerState.state instanceof Array ? playerState.state.length : 1)) {
+      playerState.patch = playerState.state instanceof Array ? patches : patches[0];
+    }
+  }
+  return update;
+}
+
+/**
+ * Create the interface that the host uses to run the game.
+ *
+ * @param options.bots - Computer players available to this game, keyed by
+ * name. Any player in {@link SetupState} with a `bot` attribute that matches
+ * one of these will have its moves played automatically by that {@link Bot}.
+ *
+ * @param options.patches - If true, each {@link PlayerState} in the updates
+ * after a move also includes `patch`, the changes from that player's previous
+ * state. These can be sent to players in place of the full state to reduce
+ * the size of updates.
+ *
+ * @param options.now - The time source used for time limits on player actions,
+ * returning the current time in milliseconds (Default `Date.now`). Supply a
+ * different time source to make time limits deterministic, e.g. in tests.
+ *
+ * @param options.warmGames - The number of games for which to keep the game
+ * in memory after each update (Default 0). A move or timeout for one of these
+ * games is then applied to the game kept in memory rather than setting the
+ * game up again from the previous state. Games are looked up by the random
+ * seed they were set up with, and the game in memory is only used if the
+ * previous state matches the last state it created exactly. Otherwise the game
+ * is set up from the previous state as usual.
+ *
+ * @category Core
+ */
+export const createInterface = (setup: SetupFunction, options?: {
+  bots?: Record<string, Bot>,
+  patches?: boolean,
+  now?: () => number,
+  warmGames?: number,
+}): GameInterface => {
+  const bots = options?.bots ?? {};
+  // each player's state before an update, to patch from. messages are not kept
+  // in the full state that a game is set up from, so they are always patched
+  const playerStates = (gameManager: GameManager) => options?.patches ? gameManager.players.map(p => {
+    const { messages: _m, ...state } = gameManager.getState(p);
+    return { position: p.position, state: state as GameState };
+  }) : [];
+  const now = options?.now ?? (() => Date.now());
+  const setupWithTime: SetupFunction = (state, setupOptions) => {
+    const gameManager = setup(state, setupOptions);
+    gameManager.now = now;
+    return gameManager;
+  }
+
+  // games kept in memory after their last update along with the hash of the
+  // state of that update, least recently used first
+  const warmGames = new Map<string, { gameManager: GameManager, hash: string }>();
+  const keepWarm = (gameManager: GameManager, update: GameUpdate) => {
+    const key = gameManager.setupState?.randomSeed;
+    if (!options?.warmGames || key === undefined) return;
+    warmGames.delete(key);
+    warmGames.set(key, { gameManager, hash: hashState(update.game.state) });
+    if (warmGames.size > options.warmGames) warmGames.delete(warmGames.keys().next().value!);
+  }
+
+  // the game at a previous state, ready for the next move with a new random
+  // seed. The game is removed from the warm games until its next update, so
+  // that it is set up again if the move fails.
+  const hydrate = (state: GameState, rseed: string): GameManager => {
+    const key = state.setup?.randomSeed;
+    const warm = key !== undefined ? warmGames.get(key) : undefined;
+    if (!warm) return setupWithTime(state, {rseed, trackMovement: true});
+    warmGames.delete(key!);
+    if (hashState(state) !== warm.hash) {
+      console.debug(`Game in memory at state #${warm.gameManager.sequence} does not match state #${state.sequence} received. Setting up game from state.`);
+      return setupWithTime(state, {rseed, trackMovement: true});
+    }
+    const gameManager = warm.gameManager;
+    gameManager.setRandomSeed(rseed);
+    gameManager.intermediateUpdates = [];
+    gameManager.revealed = false;
+    gameManager.undoPolicy = undefined;
+    return gameManager;
+  }
+
   return {
     initialState: (state: SetupState): GameUpdate => {
       let rseed = state.randomSeed;
@@ -101,24 +248,28 @@ export const createInterface = (setup: SetupFunction): GameInterface => {
         }
         if (!rseed) rseed = advanceRseed(); // set the seed first because createGame may call random()
       }
-      const gameManager = setup(state, {rseed, trackMovement: true});
-      if (globalThis.window) window.serverGameManager = gameManager;
+      const gameManager = setupWithTime(state, {rseed, trackMovement: true});
+      gameManager.startTime = now();
       if (gameManager.phase !== 'finished') gameManager.play();
-      return gameManager.getUpdate();
+      playBots(gameManager, bots);
+      const update = gameManager.getUpdate();
+      keepWarm(gameManager, update);
+      return update;
     },
     processMove: (
       previousState: GameStartedState,
       move: SerializedInterfaceMove,
     ): GameUpdate => {
       const rseed = advanceRseed(previousState.state.rseed);
+      const gameManager = hydrate(previousState.state, rseed);
       previousState.state.rseed = rseed;
-
-      const gameManager = setup(previousState.state, {rseed, trackMovement: true});
+      const previousStates = playerStates(gameManager);
       const player = gameManager.players.atPosition(move.position)!;
       // @ts-ignore
       gameManager.messages = [];
       gameManager.announcements = [];
       if (!(move.data instanceof Array)) move.data = [move.data];
+      if (gameManager.timeRemaining(player) === 0) throw Error(`Unable to process move: player #${player.position} is out of time`);
 
       let error = undefined;
       for (let i = 0; i !== move.data.length; i++) {
@@ -133,8 +284,12 @@ export const createInterface = (setup: SetupFunction): GameInterface => {
         if (gameManager.phase === 'finished') break;
         gameManager.play();
       }
+      playBots(gameManager, bots);
+      gameManager.recordMove(move.position, move.data);
 
-      return gameManager.getUpdate();
+      const update = addPatches(gameManager.getUpdate(), previousStates);
+      keepWarm(gameManager, update);
+      return update;
     },
 
     seatPlayer: (players: Player[], seatCount: number): {position: number, color: string, settings: any} | null => {
@@ -154,10 +309,15 @@ export const createInterface = (setup: SetupFunction): GameInterface => {
       return null;
     },
 
-    reprocessHistory(state: SetupState, moves: SerializedInterfaceMove[]): ReprocessHistoryResult {
+    reprocessHistory(state: SetupState, moves: SerializedInterfaceMove[], startTime?: number): ReprocessHistoryResult {
       let rseed = state.randomSeed;
-      const gameManager = setup(state, {rseed, trackMovement: false});
+      const gameManager = setupWithTime(state, {rseed, trackMovement: false});
+      // replay time limits with the times the game was played at, if known
+      let time = startTime;
+      gameManager.now = () => time ?? now();
+      gameManager.startTime = startTime;
       if (gameManager.phase !== 'finished') gameManager.play();
+      playBots(gameManager, bots);
       const initialState = gameManager.getUpdate();
       let error = undefined;
       const updates: GameUpdate[] = [];
@@ -168,23 +328,38 @@ export const createInterface = (setup: SetupFunction): GameInterface => {
         gameManager.messages = [];
         gameManager.announcements = [];
         gameManager.intermediateUpdates = [];
+        gameManager.revealed = false;
+        gameManager.undoPolicy = undefined;
+        time = move.time;
         const player = gameManager.players.atPosition(move.position)!;
         if (!(move.data instanceof Array)) move.data = [move.data];
 
         for (let i = 0; i !== move.data.length; i++) {
           try {
-            error = gameManager.processMove({
-              player,
-              name: move.data[i].name,
-              args: Object.fromEntries(Object.entries(move.data[i].args).map(([k, v]) => [k, deserializeArg(v as SerializedArg, gameManager.game)]))
-            });
+            if (move.data[i].name === '__timeout__') {
+              gameManager.timeout(deserializeArg(move.data[i].args.player, gameManager.game) as Player);
+            } else {
+              error = gameManager.processMove({
+                player,
+                name: move.data[i].name,
+                args: Object.fromEntries(Object.entries(move.data[i].args).map(([k, v]) => [k, deserializeArg(v as SerializedArg, gameManager.game)]))
+              });
+            }
           } catch (e) {
             error = e.message;
           }
           if (error || gameManager.phase === 'finished') break;
           gameManager.play();
         }
+        if (!error) {
+          try {
+            playBots(gameManager, bots);
+          } catch (e) {
+            error = e.message;
+          }
+        }
         if (error) break;
+        gameManager.recordMove(move.position, move.data);
         updates.push(gameManager.getUpdate());
         if (gameManager.phase === 'finished') break;
       }
@@ -194,6 +369,66 @@ export const createInterface = (setup: SetupFunction): GameInterface => {
         updates,
         error
       };
-    }
+    },
+
+    /**
+     * Take back the last move(s) of the player at `position`. `previousState`
+     * is the current state of the game and `undoState` is the earlier state
+     * identified by `previousState.state.undo.sequence` that will be restored.
+     */
+    undo: (
+      previousState: GameStartedState,
+      undoState: GameStartedState,
+      position: number,
+    ): GameUpdate => {
+      const undo = previousState.state.undo;
+      if (undo?.position !== position) throw Error(`Unable to undo: player #${position} has no move that can be taken back`);
+      if (undoState.state.sequence !== undo.sequence) throw Error(`Unable to undo: expected state #${undo.sequence} but received #${undoState.state.sequence}`);
+
+      const previousStates = options?.patches ? playerStates(setupWithTime(previousState.state, {rseed: previousState.state.rseed})) : [];
+      const gameManager = setupWithTime(undoState.state, {rseed: undoState.state.rseed, trackMovement: true});
+      gameManager.sequence = previousState.state.sequence;
+      gameManager.messages = [];
+      gameManager.announcements = [];
+      gameManager.undo = undefined;
+      gameManager.game.message('{{player}} took back their move', { player: gameManager.players.atPosition(position)! });
+
+      const update = addPatches(gameManager.getUpdate(), previousStates);
+      keepWarm(gameManager, update);
+      return update;
+    },
+
+    /**
+     * Apply the time limit fallback for all current players that have run out
+     * of time. The host should call this once the time remaining for any
+     * current player has elapsed.
+     */
+    processTimeout: (previousState: GameStartedState): GameUpdate => {
+      const rseed = advanceRseed(previousState.state.rseed);
+      const gameManager = hydrate(previousState.state, rseed);
+      previousState.state.rseed = rseed;
+      const previousStates = playerStates(gameManager);
+      gameManager.messages = [];
+      gameManager.announcements = [];
+
+      const expired = () => gameManager.players.allCurrent().find(p => gameManager.timeRemaining(p) === 0);
+      let player = expired();
+      if (!player) throw Error('Unable to process timeout: no player is out of time');
+      const position = player.position;
+      const timeouts: SerializedMove[] = [];
+      for (let i = 0; player && gameManager.phase === 'started'; i++) {
+        if (i > 1000) throw Error('Players ran out of time 1000 times without any move being made');
+        gameManager.timeout(player);
+        timeouts.push({ name: '__timeout__', args: { player: serializeArg(player) } });
+        player = expired();
+      }
+      playBots(gameManager, bots);
+      // timeouts are kept in the history as moves so that the game can be replayed
+      gameManager.recordMove(position, timeouts);
+
+      const update = addPatches(gameManager.getUpdate(), previousStates);
+      keepWarm(gameManager, update);
+      return update;
+    },
   };
 }
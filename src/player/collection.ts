@@ -72,6 +72,54 @@ export default class PlayerCollection<P extends Player> extends Array<P> {
     return this.filter(p => !this.currentPosition.includes(p.position));
   }
 
+  /**
+   * Returns the array of players on the given team, in turn order.
+   */
+  onTeam(team: string): P[] {
+    return this.filter(p => p.team === team);
+  }
+
+  /**
+   * Returns the array of other players on the same team as the given player.
+   */
+  teammates(player: P): P[] {
+    return player.team === undefined ? [] : this.filter(p => p !== player && p.team === player.team);
+  }
+
+  /**
+   * Returns the array of players not on the same team as the given player. If
+   * the player is not on a team, this is all other players.
+   */
+  opponents(player: P): P[] {
+    return this.filter(p => p !== player && (player.team === undefined || p.team !== player.team));
+  }
+
+  /**
+   * Returns the table positions of the given players, or of all players on the
+   * team if given the name of a team
+   * @internal
+   */
+  positionsOf(...players: Player[] | number[] | [team: string]): number[];
+  positionsOf(player: Player | number | string): number[];
+  positionsOf(...players: (Player | number | string)[]): number[] {
+    return players.flatMap(p => typeof p === 'string' ? this.onTeam(p).map(player => player.position) : typeof p === 'number' ? p : p.position);
+  }
+
+  /**
+   * Returns the array of players that have not been eliminated, in turn order.
+   */
+  active(): P[] {
+    return this.filter(p => !p.eliminated);
+  }
+
+  /**
+   * Returns the array of players that have been eliminated, in the order they
+   * were eliminated.
+   */
+  eliminated(): P[] {
+    return this.filter(p => p.eliminated).sort((p1, p2) => p1.eliminated! - p2.eliminated!);
+  }
+
   /**
    * Returns the array of players in the order of table positions. Does not
    * alter the actual player order.
@@ -93,11 +141,12 @@ export default class PlayerCollection<P extends Player> extends Array<P> {
   }
 
   /**
-   * Advance the current player to act to the next player based on player order.
+   * Advance the current player to act to the next player based on player
+   * order. Eliminated players are skipped.
    */
   next() {
     if (this.currentPosition.length === 0) {
-      this.currentPosition = [this[0].position];
+      this.currentPosition = [(this.active()[0] ?? this[0]).position];
     } else if (this.currentPosition.length === 1) {
       this.currentPosition = [this.after(this.currentPosition[0]).position];
     }
@@ -105,10 +154,16 @@ export default class PlayerCollection<P extends Player> extends Array<P> {
   }
 
   /**
-   * Return the next player to act based on player order.
+   * Return the next player to act based on player order. Eliminated players are
+   * skipped.
    */
   after(player: number | P) {
-    return this[(this.turnOrderOf(player) + 1) % this.length];
+    const turnOrder = this.turnOrderOf(player);
+    for (let i = 1; i !== this.length; i++) {
+      const next = this[(turnOrder + i) % this.length];
+      if (!next.eliminated) return next;
+    }
+    return this[turnOrder];
   }
 
   /**
@@ -189,7 +244,7 @@ export default class PlayerCollection<P extends Player> extends Array<P> {
     this.splice(0);
 
     for (const p of players) {
-      this.addPlayer({position: p.position} as unknown as PlayerAttributes);
+      this.addPlayer({position: p.position, ...(p.team !== undefined && {team: p.team})} as unknown as PlayerAttributes);
     }
   }
 
@@ -47,6 +47,26 @@ export default class Player<G extends BaseGame = BaseGame, P extends BasePlayer
    * game, whereas `position` cannot.
    */
   position: number;
+
+  /**
+   * If this seat is played by a computer, the name of the {@link Bot}
+   * registered in {@link createInterface} that plays it
+   */
+  bot?: string;
+
+  /**
+   * The name of the team this player is on, if the game is played in teams.
+   * Teams are assigned during setup if `teams` are provided to {@link render},
+   * or may be assigned by the game.
+   */
+  team?: string;
+
+  /**
+   * If this player has left the game, the order in which they were eliminated,
+   * starting with 1. See {@link Game#eliminate}.
+   */
+  eliminated?: number;
+
   settings?: any;
   game: G;
   _players: PlayerCollection<P>;
@@ -73,6 +93,14 @@ export default class Player<G extends BaseGame = BaseGame, P extends BasePlayer
     return this._players.setCurrent(this);
   }
 
+  /**
+   * Leave the game. This player is eliminated and no longer takes turns. See
+   * {@link Game#eliminate}.
+   */
+  resign(this: P) {
+    this.game.eliminate(this);
+  }
+
   /**
    * Returns an array of all other players.
    */
@@ -121,15 +149,22 @@ export default class Player<G extends BaseGame = BaseGame, P extends BasePlayer
     return this.game.has(className, {owner: this}, ...finders);
   }
 
-  toJSON(player?: Player) {
+  /**
+   * JSON representation
+   * @param seenBy - optional player viewing the game, or 0 for a spectator.
+   * Attributes in {@link Player.hide} are only included for this player.
+   * @internal
+   */
+  toJSON(seenBy?: Player | number) {
     let {_players, game: _b, ...attrs}: Record<any, any> = this;
+    const hidden = seenBy !== undefined && seenBy !== this && seenBy !== this.position;
 
     // remove methods
     attrs = serializeObject(
       Object.fromEntries(Object.entries(attrs).filter(
         ([key, value]) => (
           typeof value !== 'function' &&
-            (player === undefined || player === this || !(this.constructor as typeof Player).hiddenAttributes.includes(key as keyof Player))
+            (!hidden || !(this.constructor as typeof Player).hiddenAttributes.includes(key as keyof Player))
         )
       ))
     );
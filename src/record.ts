@@ -0,0 +1,81 @@
+import type GameManager from './game-manager.js';
+import type { SerializedMove } from './game-manager.js';
+import type { SetupState, GameInterface, ReprocessHistoryResult } from './interface.js';
+
+/**
+ * A move in a {@link GameRecord}, along with the results of the move that can
+ * be used to verify that a replay of the game matches the original
+ * @category Core
+ */
+export type GameRecordMove = {
+  position: number, // player who made the move
+  data: SerializedMove[],
+  sequence: number, // sequence of the state after this move
+  messages: string[], // messages sent as a result of this move
+  time?: number, // when the move was made, for replaying time limits
+};
+
+/**
+ * A complete record of a game that can be saved and replayed. Records are plain
+ * JSON.
+ * @category Core
+ */
+export type GameRecord = {
+  format: 'boardzilla-game-record',
+  version: 1,
+  setup: SetupState,
+  time?: number, // when the game was set up
+  moves: GameRecordMove[],
+};
+
+/**
+ * Create a record of a game from its start up to the current state. The game
+ * must have been created in this version of Boardzilla.
+ * @category Core
+ */
+export const exportRecord = (gameManager: GameManager): GameRecord => {
+  if (!gameManager.setupState) throw Error('Unable to export game: game has no record of its setup');
+  return {
+    format: 'boardzilla-game-record',
+    version: 1,
+    setup: gameManager.setupState,
+    ...(gameManager.startTime !== undefined && { time: gameManager.startTime }),
+    moves: gameManager.history,
+  };
+}
+
+/**
+ * Replay a game from a {@link GameRecord}. Along with the result of replaying
+ * all the moves, this returns a list of any differences between the replay and
+ * the results stored in the record, e.g. if the game has changed since the
+ * record was created.
+ * @category Core
+ */
+export const replayRecord = (gameInterface: GameInterface, record: GameRecord): ReprocessHistoryResult & { differences: string[] } => {
+  if (record.format !== 'boardzilla-game-record') throw Error('Unable to replay game: not a game record');
+  if (record.version !== 1) throw Error(`Unable to replay game: unsupported record version ${record.version}`);
+
+  const result = gameInterface.reprocessHistory(
+    structuredClone(record.setup),
+    record.moves.map(({ position, data, time }) => ({ position, data: structuredClone(data), time })),
+    record.time,
+  );
+
+  const differences: string[] = [];
+  if (result.error) differences.push(`move #${result.updates.length + 1}: ${result.error}`);
+  if (result.updates.length < record.moves.length) {
+    differences.push(`replayed ${result.updates.length} of ${record.moves.length} moves`);
+  }
+  result.updates.forEach((update, i) => {
+    const move = record.moves[i];
+    if (update.game.state.sequence !== move.sequence) {
+      differences.push(`move #${i + 1}: expected sequence ${move.sequence} but found ${update.game.state.sequence}`);
+    }
+    const messages = update.messages.map(m => m.body);
+    if (JSON.stringify(messages) !== JSON.stringify(move.messages)) {
+      differences.push(`move #${i + 1}: expected messages ${JSON.stringify(move.messages)} but found ${JSON.stringify(messages)}`);
+    }
+  });
+
+  return { ...result, differences };
+}
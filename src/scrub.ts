@@ -0,0 +1,77 @@
+import { deserializeSingleArg } from './action/utils.js';
+import { n } from './utils.js';
+
+import type { Game, GameElement } from './board/index.js';
+import type { Argument } from './action/action.js';
+import type { Message } from './game-manager.js';
+
+// the element a serialized reference points to, if it can still be found
+const referencedElement = (value: string, game: Game): GameElement | undefined => {
+  if (value.slice(0, 4) !== '$el[') return;
+  try {
+    return deserializeSingleArg(value, game) as GameElement;
+  } catch (e) {
+    return;
+  }
+}
+
+/**
+ * Remove any references to elements that a player cannot see from JSON that
+ * was serialized for players, e.g. flow positions or player attributes. These
+ * are replaced by null, so that arrays keep their length. `seenBy` may be 0 for
+ * a spectator.
+ * @internal
+ */
+export const scrubJSON = (json: any, game: Game, seenBy: number): any => {
+  if (json instanceof Array) return json.map(value => scrubJSON(value, game, seenBy));
+  if (json && typeof json === 'object') {
+    return Object.fromEntries(Object.entries(json).map(([key, value]) => [key, scrubJSON(value, game, seenBy)]));
+  }
+  if (typeof json === 'string' && json.slice(0, 4) === '$el[') {
+    const element = referencedElement(json, game);
+    return element?._isSeenBy(seenBy) ? json : null;
+  }
+  return json;
+}
+
+/**
+ * Remove the sealed moves of other players from serialized flow positions, see
+ * {@link everyPlayer}. `seenBy` may be 0 for a spectator.
+ * @internal
+ */
+export const scrubCommitments = (json: any, seenBy: number): any => {
+  if (json instanceof Array) return json.map(value => scrubCommitments(value, seenBy));
+  if (json && typeof json === 'object') {
+    const scrubbed = Object.fromEntries(Object.entries(json).map(([key, value]) => [key, scrubCommitments(value, seenBy)]));
+    if (json.type === 'parallel' && json.position?.commitments) {
+      const commitment = json.position.commitments[seenBy];
+      scrubbed.position.commitments = commitment ? { [seenBy]: commitment } : {};
+    }
+    return scrubbed;
+  }
+  return json;
+}
+
+// hidden elements appear in messages by their type only, e.g. "Card"
+const scrubArg = (arg: Argument, seenBy: number): Argument => {
+  if (arg instanceof Array) return arg.map(a => scrubArg(a, seenBy)) as Argument;
+  if (typeof arg === 'object' && 'isGameElement' in arg.constructor && !(arg as GameElement)._isSeenBy(seenBy)) {
+    return arg.constructor.name.replace(/([a-z0-9])([A-Z])/g, "$1 $2");
+  }
+  return arg;
+}
+
+/**
+ * Create a message from text and args, along with the text for each player
+ * that cannot see all of the elements it refers to
+ * @internal
+ */
+export const createMessage = (game: Game, text: string, args?: Record<string, Argument>): Message => {
+  const message: Message = { body: n(text, args, true) };
+  if (!args) return message;
+  for (const position of [0, ...game.players.map(p => p.position)]) {
+    const body = n(text, Object.fromEntries(Object.entries(args).map(([k, v]) => [k, scrubArg(v, position)])), true);
+    if (body !== message.body) message._scrubbed = { ...message._scrubbed, [position]: body };
+  }
+  return message;
+}
@@ -0,0 +1,75 @@
+import type { ElementJSON } from './board/element.js';
+import type { GameState } from './interface.js';
+
+// JSON with all object keys sorted so that equal values always produce the same string
+const canonicalJSON = (value: any): string => {
+  if (value instanceof Array) return `[${value.map(v => v === undefined ? 'null' : canonicalJSON(v)).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().filter(k => value[k] !== undefined).map(k => `${JSON.stringify(k)}:${canonicalJSON(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+// 53-bit string hash (cyrb53)
+const hashString = (str: string) => {
+  let h1 = 0xdeadbeef, h2 = 0x41c6ce57;
+  for (let i = 0; i !== str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+/**
+ * A hash of the contents of a game state that does not depend on the order of
+ * any object keys
+ * @internal
+ */
+export const hashState = (state: GameState) => hashString(canonicalJSON(state));
+
+/**
+ * List the differences between two states, for debugging states that should
+ * be identical. Elements are compared by their position on the board.
+ * @internal
+ */
+export const diffStates = (expected: GameState, actual: GameState): string[] => {
+  const differences: string[] = [];
+
+  const keys = new Set([...Object.keys(expected), ...Object.keys(actual)] as (keyof GameState)[]);
+  for (const key of keys) {
+    if (key === 'board' || canonicalJSON(expected[key]) === canonicalJSON(actual[key])) continue;
+    differences.push(`${key}: expected ${canonicalJSON(expected[key])} but found ${canonicalJSON(actual[key])}`);
+  }
+
+  const diffElements = (branch: string, expectedJSON?: ElementJSON, actualJSON?: ElementJSON) => {
+    const name = (json: ElementJSON) => `${json.className}${json.name ? ` "${json.name}"` : ''}`;
+    if (!actualJSON) {
+      differences.push(`${branch}: missing ${name(expectedJSON!)}`);
+      return;
+    }
+    if (!expectedJSON) {
+      differences.push(`${branch}: unexpected ${name(actualJSON)}`);
+      return;
+    }
+    const attributes = new Set([...Object.keys(expectedJSON), ...Object.keys(actualJSON)].filter(attr => attr !== 'children'));
+    const changes = [...attributes].filter(
+      attr => canonicalJSON(expectedJSON[attr]) !== canonicalJSON(actualJSON[attr])
+    ).map(
+      attr => `${attr}: expected ${canonicalJSON(expectedJSON[attr])} but found ${canonicalJSON(actualJSON[attr])}`
+    );
+    if (changes.length) differences.push(`${branch} ${name(expectedJSON)}: ${changes.join(', ')}`);
+    const children = Math.max(expectedJSON.children?.length ?? 0, actualJSON.children?.length ?? 0);
+    for (let i = 0; i !== children; i++) {
+      diffElements(`${branch}/${i}`, expectedJSON.children?.[i], actualJSON.children?.[i]);
+    }
+  }
+
+  for (let i = 0; i !== Math.max(expected.board.length, actual.board.length); i++) {
+    diffElements(String(i), expected.board[i], actual.board[i]);
+  }
+
+  return differences;
+}
@@ -0,0 +1,139 @@
+import { equals } from './utils.js';
+
+import type { ElementJSON } from './board/element.js';
+import type { GameState } from './interface.js';
+
+/**
+ * The changes needed to turn one game state into the next. Elements are
+ * identified by their id, or their ref if the state was scrubbed for a player.
+ */
+export type StatePatch = {
+  from: number, // sequence of the state this patch applies to
+  ops: StatePatchOp[],
+}
+
+export type StatePatchOp = (
+  // replace a top-level property of the state. a missing value removes it
+  { op: 'set', key: Exclude<keyof GameState, 'board'>, value?: any } |
+  // change the attributes of an existing element
+  { op: 'attributes', element: number, set?: Record<string, any>, remove?: string[] } |
+  // replace the children of an element, or the board itself if no element is
+  // given. existing elements are listed by key and new elements in full
+  { op: 'children', element?: number, children: (number | ElementJSON)[] }
+);
+
+const elementKey = (json: ElementJSON): number | undefined => json._id ?? json._ref;
+
+// find all elements by key. returns undefined if any element cannot be
+// uniquely identified
+const indexElements = (board: ElementJSON[], index = new Map<number, ElementJSON>()) => {
+  for (const json of board) {
+    const key = elementKey(json);
+    if (key === undefined || index.has(key)) return;
+    index.set(key, json);
+    if (json.children && !indexElements(json.children, index)) return;
+  }
+  return index;
+}
+
+// movement tracking only applies to the update in which an element moved
+const omitTransient = ({ children: _c, _wasRef: _w, ...attributes }: ElementJSON) => attributes;
+
+/**
+ * Create a patch that turns `previous` into `next`, or undefined if the states
+ * cannot be compared
+ * @internal
+ */
+export const diffState = (previous: GameState, next: GameState): StatePatch | undefined => {
+  const elements = indexElements(previous.board);
+  if (!elements || !indexElements(next.board)) return;
+
+  const ops: StatePatchOp[] = [];
+
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)] as (keyof GameState)[]);
+  for (const key of keys) {
+    if (key === 'board' || equals(previous[key], next[key])) continue;
+    ops.push(next[key] === undefined ? { op: 'set', key } : { op: 'set', key, value: next[key] });
+  }
+
+  const diffChildren = (element: number | undefined, previousChildren: ElementJSON[] = [], children: ElementJSON[] = []) => {
+    if (!equals(previousChildren.map(elementKey), children.map(elementKey))) {
+      ops.push({
+        op: 'children',
+        element,
+        children: children.map(json => elements.has(elementKey(json)!) ? elementKey(json)! : json)
+      });
+    }
+    for (const json of children) {
+      const key = elementKey(json)!;
+      const previousJSON = elements.get(key);
+      if (!previousJSON) continue; // sent in full
+      const before = omitTransient(previousJSON);
+      const after: Record<string, any> = { ...json };
+      delete after.children;
+      const set = Object.fromEntries(Object.entries(after).filter(([attr, value]) => !equals(before[attr], value)));
+      const remove = Object.keys(before).filter(attr => !(attr in after));
+      if (Object.keys(set).length || remove.length) {
+        const op: StatePatchOp = { op: 'attributes', element: key };
+        if (Object.keys(set).length) op.set = set;
+        if (remove.length) op.remove = remove;
+        ops.push(op);
+      }
+      diffChildren(key, previousJSON.children, json.children);
+    }
+  }
+  diffChildren(undefined, previous.board, next.board);
+
+  return { from: previous.sequence, ops };
+}
+
+/**
+ * Apply a patch created from the server to the previous game state, returning
+ * the new state. The previous state is left unchanged.
+ * @internal
+ */
+export const applyStatePatch = (state: GameState, patch: StatePatch): GameState => {
+  if (state.sequence !== patch.from) throw Error(`Cannot apply patch from state #${patch.from} to state #${state.sequence}`);
+  const next: GameState = structuredClone(state);
+
+  const elements = new Map<number, ElementJSON>();
+  const index = (board: ElementJSON[]) => {
+    for (const json of board) {
+      delete json._wasRef;
+      elements.set(elementKey(json)!, json);
+      if (json.children) index(json.children);
+    }
+  }
+  index(next.board);
+
+  const element = (key: number) => {
+    const json = elements.get(key);
+    if (!json) throw Error(`Cannot apply patch to state #${state.sequence}: no element #${key}`);
+    return json;
+  }
+
+  for (const op of patch.ops) {
+    if (op.op === 'set') {
+      if (op.value === undefined) {
+        delete (next as Record<string, any>)[op.key];
+      } else {
+        (next as Record<string, any>)[op.key] = op.value;
+      }
+    } else if (op.op === 'attributes') {
+      const json = element(op.element);
+      Object.assign(json, op.set);
+      for (const attr of op.remove ?? []) delete json[attr];
+    } else {
+      const children = op.children.map(child => typeof child === 'number' ? element(child) : child);
+      if (op.element === undefined) {
+        next.board = children;
+      } else if (children.length) {
+        element(op.element).children = children;
+      } else {
+        delete element(op.element).children;
+      }
+    }
+  }
+
+  return next;
+}
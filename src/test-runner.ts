@@ -8,12 +8,6 @@ import type { Argument } from './action/action.js';
 import type { SetupFunction } from './game-creator.js';
 import type { default as GameManager, PlayerAttributes } from './game-manager.js';
 
-declare global {
-  interface Window {
-    serverGameManager?: GameManager;
-  }
-}
-
 class TestRunnerPlayer<G extends BaseGame> {
   runner: TestRunner<G>
   store: ReturnType<typeof createGameStore>
@@ -35,14 +29,13 @@ class TestRunnerPlayer<G extends BaseGame> {
     if (this.runner.server.state!.game.phase === 'finished') throw Error("Cannot take a move on a finished game");
     if (!this.runner.server.state!.game.currentPlayers.includes(this.position)) throw Error("This player cannot take a move");
     const state = this.store.getState();
-    globalThis.$ = state.gameManager.game._ctx.namedSpaces;
     this.runner.currentPosition = this.position;
-    state.selectMove({
+    state.gameManager.inContext(() => state.selectMove({
       name,
       args,
       selections: [],
       requireExplicitSubmit: false
-    })
+    }));
     this.runner.updatePlayersFromState();
   }
 
@@ -127,8 +120,9 @@ export class TestRunner<G extends BaseGame> {
     return this.players
   }
 
+  // recreate the server's copy of the game from the latest full state
   getCurrentGame() {
-    this.server.gameManager = globalThis.window.serverGameManager as GameManager;
+    this.server.gameManager = this.setup(this.server.state!.game.state);
     this.server.game = this.server.gameManager.game as G;
   }
 
@@ -147,6 +141,7 @@ export class TestRunner<G extends BaseGame> {
         updateState({
           type: 'gameUpdate',
           state: playerState,
+          hash: state.hash,
           position: state.position,
           currentPlayers: this.server.state!.game.currentPlayers
         });
@@ -155,6 +150,7 @@ export class TestRunner<G extends BaseGame> {
         updateState({
           type: 'gameFinished',
           state: playerState,
+          hash: state.hash,
           position: state.position,
           winners: this.server.gameManager.winner.map(p => p.position),
         });
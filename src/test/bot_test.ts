@@ -0,0 +1,263 @@
+import chai from 'chai';
+
+import { createGame } from '../game-creator.js';
+import { createInterface } from '../interface.js';
+import { legalMoves, RandomBot, MCTSBot, MinimaxBot } from '../bot/index.js';
+import Simulation from '../bot/simulation.js';
+import random from 'random-seed';
+import { Piece, Space } from '../board/index.js';
+
+import {
+  starterGame,
+  starterGameWithTiles,
+  TestPlayer,
+  TestGame,
+  Token,
+} from './fixtures/games.js';
+
+import type GameManager from '../game-manager.js';
+import type { GameStartedState } from '../interface.js';
+
+const { expect } = chai;
+
+describe('Bots', () => {
+  const players = [
+    { id: 'joe', name: 'Joe', color: 'red', position: 1, tokens: 0, avatar: '', host: true, },
+    { id: 'jane', name: 'Jane', color: 'green', position: 2, tokens: 0, avatar: '', host: false, },
+  ];
+
+  class Card extends Piece<TestGame> {
+    value: number;
+  }
+
+  describe('legalMoves', () => {
+    let gameManager: GameManager<TestGame>;
+
+    const setup = (creator: (game: TestGame) => void) => {
+      gameManager = createGame(TestPlayer, TestGame, creator)({ players, settings: { tokens: 4 }, randomSeed: 'seed' });
+      gameManager.play();
+    };
+
+    it('lists board choices', () => {
+      setup(starterGame);
+      const moves = legalMoves(gameManager, gameManager.players[0]);
+      expect(moves.length).to.equal(4);
+      expect(moves.map(m => m.args.token)).to.deep.equal(gameManager.game.all(Token).map(t => t));
+      expect(legalMoves(gameManager, gameManager.players[1])).to.deep.equal([]);
+    });
+
+    it('lists placements', () => {
+      setup(starterGameWithTiles);
+      const moves = legalMoves(gameManager, gameManager.players[0]);
+      expect(moves.length).to.equal(4 * 9);
+      expect(moves[0].args.__placement__).to.deep.equal([1, 1, 0]);
+      expect(moves[8].args.__placement__).to.deep.equal([3, 3, 0]);
+    });
+
+    it('lists choices, numbers and multi-selections', () => {
+      setup(game => {
+        const { playerActions } = game.flowCommands;
+        game.create(Space, 'hand');
+        $.hand.createMany(3, Card, 'card', { value: 1 });
+        game.defineActions({
+          bid: () => game.action().chooseFrom(
+            'suit', ['hearts', 'spades']
+          ).chooseNumber(
+            'amount', { min: 1, max: 3, validate: ({ suit, amount }) => suit === 'spades' || amount < 3 }
+          ),
+          discard: () => game.action().chooseOnBoard(
+            'cards', $.hand.all(Card), { min: 1, max: 2 }
+          ),
+          pass: () => game.action(),
+        });
+        game.defineFlow(playerActions({ actions: ['bid', 'discard', 'pass'] }));
+      });
+      const moves = legalMoves(gameManager, gameManager.players[0]);
+      expect(moves.filter(m => m.name === 'bid').map(m => m.args)).to.deep.equal([
+        { suit: 'hearts', amount: 1 },
+        { suit: 'hearts', amount: 2 },
+        { suit: 'spades', amount: 1 },
+        { suit: 'spades', amount: 2 },
+        { suit: 'spades', amount: 3 },
+      ]);
+      expect(moves.filter(m => m.name === 'discard').length).to.equal(6);
+      expect(moves.filter(m => m.name === 'pass').map(m => m.args)).to.deep.equal([{}]);
+      expect(legalMoves(gameManager, gameManager.players[0], 3).length).to.equal(3);
+    });
+
+    it('lists reorders', () => {
+      setup(game => {
+        const { playerActions } = game.flowCommands;
+        game.create(Space, 'hand');
+        $.hand.createMany(3, Card, 'card', { value: 1 });
+        game.defineActions({
+          arrange: () => game.action().reorder($.hand.all(Card)),
+        });
+        game.defineFlow(playerActions({ actions: ['arrange'] }));
+      });
+      const moves = legalMoves(gameManager, gameManager.players[0]);
+      expect(moves.length).to.equal(6);
+      for (const move of moves) {
+        expect(gameManager.getAction('arrange', gameManager.players[0])._process(gameManager.players[0], {...move.args})).to.be.undefined;
+      }
+    });
+  });
+
+  describe('randomness', () => {
+    it('chooses moves without drawing from the game\'s random numbers', () => {
+      const setup = createGame(TestPlayer, TestGame, starterGame);
+      const gameManager = setup({ players, settings: { tokens: 4 }, randomSeed: 'seed' }, { rseed: 'seed' });
+      gameManager.play();
+      const fresh = setup({ players, settings: { tokens: 4 }, randomSeed: 'seed' }, { rseed: 'seed' });
+      fresh.play();
+
+      for (const bot of [new RandomBot(), new MCTSBot(setup, { iterations: 10 }), new MinimaxBot(setup, { depth: 1, evaluate: () => 0 })]) {
+        expect(bot.chooseMove(gameManager, gameManager.players[0])).to.not.be.undefined;
+      }
+      expect(gameManager.revealed).to.be.false;
+      expect(gameManager.random()).to.equal(fresh.random());
+    });
+
+    it('chooses the same moves for the same game', () => {
+      const gameManager = createGame(TestPlayer, TestGame, starterGame)({ players, settings: { tokens: 4 }, randomSeed: 'seed' }, { rseed: 'seed' });
+      gameManager.play();
+      const bot = new RandomBot();
+      const moves = [1, 2, 3].map(() => bot.chooseMove(gameManager, gameManager.players[0]));
+      expect(moves[1]).to.deep.equal(moves[0]);
+      expect(moves[2]).to.deep.equal(moves[0]);
+    });
+  });
+
+  describe('interface', () => {
+    const setup = createGame(TestPlayer, TestGame, starterGame);
+    const iface = createInterface(setup, { bots: { random: new RandomBot() } });
+
+    it('plays bot turns', () => {
+      const initialState = iface.initialState({
+        players: [players[0], { ...players[1], bot: 'random' }],
+        settings: { tokens: 10 },
+        randomSeed: 'seed'
+      });
+      expect((initialState.game as GameStartedState).currentPlayers).to.deep.equal([1]);
+
+      const update = iface.processMove(initialState.game as GameStartedState, {
+        position: 1,
+        data: { name: 'take', args: { token: '$el[0/3/0]' } }
+      });
+      expect(update.game.state.board[0].children?.find(c => c.name === 'mat' && c.player === '$p[2]')?.children?.length).to.equal(1);
+      if (update.game.phase === 'started') expect(update.game.currentPlayers).to.deep.equal([1]);
+    });
+
+    it('plays bots to completion', () => {
+      const initialState = iface.initialState({
+        players: players.map(p => ({ ...p, bot: 'random' })),
+        settings: { tokens: 10 },
+        randomSeed: 'seed'
+      });
+      expect(initialState.game.phase).to.equal('finished');
+
+      const replay = iface.reprocessHistory({
+        players: players.map(p => ({ ...p, bot: 'random' })),
+        settings: { tokens: 10 },
+        randomSeed: 'seed'
+      }, []);
+      expect(replay.initialState.game.state.board).to.deep.equal(initialState.game.state.board);
+    });
+
+    it('requires registered bots', () => {
+      expect(() => iface.initialState({
+        players: [players[0], { ...players[1], bot: 'smart' }],
+        settings: { tokens: 10 },
+        randomSeed: 'seed'
+      })).to.not.throw();
+      expect(() => iface.initialState({
+        players: [{ ...players[0], bot: 'smart' }, players[1]],
+        settings: { tokens: 10 },
+        randomSeed: 'seed'
+      })).to.throw('No bot named "smart"');
+    });
+  });
+
+  describe('search', () => {
+    // players take 1-3 tokens and whoever takes the last one wins
+    const nim = createGame(TestPlayer, TestGame, game => {
+      const { playerActions, loop, eachPlayer } = game.flowCommands;
+      game.defineActions({
+        take: player => game.action().chooseNumber(
+          'n', { min: 1, max: Math.min(3, game.tokens) }
+        ).do(({ n }) => {
+          game.tokens -= n;
+          if (game.tokens === 0) game.finish(player);
+        }),
+      });
+      game.defineFlow(
+        () => { game.tokens = game.setting('tokens') },
+        loop(eachPlayer({ name: 'player', do: playerActions({ actions: ['take'] }) }))
+      );
+    });
+
+    const cards = createGame(TestPlayer, TestGame, game => {
+      game.create(Space, 'deck');
+      game.create(Space, 'hand', { player: game.players[0] });
+      $.deck.createMany(3, Card, 'card', n => ({ value: n }));
+      $.deck.all(Card).hideFromAll();
+      game.defineActions({ pass: () => game.action() });
+      game.defineFlow(game.flowCommands.playerActions({ actions: ['pass'] }));
+    });
+
+    it('finds winning moves with minimax', () => {
+      const gameManager = nim({ players, settings: { tokens: 5 }, randomSeed: 'seed' }, { rseed: 'seed' });
+      gameManager.play();
+      const bot = new MinimaxBot(nim, { depth: 3, evaluate: () => 0 });
+      const move = bot.chooseMove(gameManager, gameManager.players[0]);
+      expect(move?.args.n).to.equal(1);
+      expect($).to.equal(gameManager.game._ctx.namedSpaces);
+    });
+
+    it('finds winning moves with MCTS', () => {
+      const gameManager = nim({ players, settings: { tokens: 5 }, randomSeed: 'seed' }, { rseed: 'seed' });
+      gameManager.play();
+      const bot = new MCTSBot(nim, { iterations: 200 });
+      const move = bot.chooseMove(gameManager, gameManager.players[0]);
+      expect(move?.args.n).to.equal(1);
+      expect($).to.equal(gameManager.game._ctx.namedSpaces);
+    });
+
+    it('averages wins and losses across determinizations with minimax', () => {
+      // guessing wins if there are tokens left, and folding ends the game with no winner
+      const gamble = createGame(TestPlayer, TestGame, game => {
+        game.defineActions({
+          fold: () => game.action().do(() => game.finish()),
+          guess: player => game.action().do(() => game.finish(game.tokens ? player : game.players.after(player))),
+        });
+        game.defineFlow(game.flowCommands.playerActions({ actions: ['fold', 'guess'] }));
+      });
+      const gameManager = gamble({ players, settings: {}, randomSeed: 'seed' }, { rseed: 'seed' });
+      gameManager.play();
+      let world = 0;
+      const bot = new MinimaxBot(gamble, {
+        evaluate: () => 0,
+        determinizations: 3,
+        determinize: game => { game.tokens = [1, 0, 1][world++ % 3] },
+      });
+      expect(bot.chooseMove(gameManager, gameManager.players[0])?.name).to.equal('guess');
+    });
+
+    it('determinizes hidden information', () => {
+      const gameManager = cards({ players, settings: {}, randomSeed: 'seed' }, { rseed: 'seed' });
+      gameManager.play();
+      const card = gameManager.game.first(Card, { value: 2 })!;
+      card.putInto($.hand);
+      card.showOnlyTo(1);
+
+      const simulation = new Simulation(cards, gameManager, gameManager.players[0], random.create('seed').random);
+      expect(JSON.stringify(simulation.state.board)).not.to.include('"value":3');
+
+      for (let i = 0; i !== 5; i++) {
+        const game = simulation.determinize().game;
+        expect(game.first('hand')!.first(Card)!.value).to.equal(2);
+        expect(game.first('deck')!.all(Card).map(c => c.value).sort()).to.deep.equal([1, 3]);
+      }
+    });
+  });
+});
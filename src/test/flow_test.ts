@@ -53,6 +53,7 @@ describe('Flow', () => {
     ]});
     const gameManager = {
       flow: testFlow,
+      interruptSignal: [],
       players: {
         currentPosition: [1],
         atPosition: () => ({position: 1}),
@@ -261,7 +262,7 @@ describe('Loop', () => {
       () => {},
     ]});
     // @ts-ignore
-    testFlow.gameManager = { flow: testFlow, players: { setCurrent: () => {} } };
+    testFlow.gameManager = { flow: testFlow, interruptSignal: [], players: { setCurrent: () => {} } };
 
     testFlow.reset();
   })
@@ -342,6 +343,8 @@ describe('Loop', () => {
         })
       });
 
+      // @ts-ignore mock gameManager
+      nestedLoop.gameManager = { interruptSignal: [] };
       nestedLoop.reset();
     })
 
@@ -361,6 +364,8 @@ describe('Loop', () => {
     it ('loops', () => {
       const stepSpy = chai.spy((x:number) => {x});
       const loop = forEach({ name: 'foreach', collection: [3, 5, 7], do: ({ foreach }) => stepSpy(foreach) });
+      // @ts-ignore mock gameManager
+      loop.gameManager = { interruptSignal: [] };
       loop.reset();
       while(loop.playOneStep() === FlowControl.ok);
       expect(stepSpy).to.have.been.called.exactly(3);
@@ -372,7 +377,7 @@ describe('Loop', () => {
       const stepSpy = chai.spy((x:number) => {x});
       const loop = forEach({ name: 'foreach', collection: [3, 5, 7], do: ({ foreach }) => stepSpy(foreach) });
       // @ts-ignore mock gameManager
-      loop.gameManager = {game: {}}
+      loop.gameManager = {game: {}, interruptSignal: []}
       loop.reset();
       loop.setBranchFromJSON([
         {
@@ -391,6 +396,8 @@ describe('Loop', () => {
       const outerLoop = forLoop({ name: 'loop', initial: 1, next: loop => loop + 1, while: loop => loop != 3, do: (
         forEach({ name: 'foreach', collection: ({ loop }) => [10 + loop, 20 + loop], do: ({ foreach }) => stepSpy(foreach) })
       )});
+      // @ts-ignore mock gameManager
+      outerLoop.gameManager = { interruptSignal: [] };
       outerLoop.reset();
       while(outerLoop.playOneStep() === FlowControl.ok);
       expect(stepSpy).to.have.been.called.exactly(4);
@@ -402,6 +409,8 @@ describe('Loop', () => {
     it ('empty collection', () => {
       const stepSpy = chai.spy((x:number) => {x});
       const empty = forEach({ name: 'foreach', collection: [], do: ({ foreach }) => stepSpy(foreach) });
+      // @ts-ignore mock gameManager
+      empty.gameManager = { interruptSignal: [] };
       empty.reset();
       while(empty.playOneStep() === FlowControl.ok);
       expect(stepSpy).not.to.have.been.called;
@@ -419,6 +428,8 @@ describe('Loop short-circuiting', () => {
       ({ loop }) => stepSpy1(loop),
       ({ loop }) => stepSpy2('end', loop)
     ]});
+    // @ts-ignore mock gameManager
+    shortLoop.gameManager = { interruptSignal: [] };
     shortLoop.reset();
     shortLoop.playOneStep();
     shortLoop.playOneStep();
@@ -450,6 +461,8 @@ describe('Loop short-circuiting', () => {
       ({ loop }) => stepSpy1(loop),
       ({ loop }) => stepSpy2('end', loop)
     ]});
+    // @ts-ignore mock gameManager
+    shortLoop.gameManager = { interruptSignal: [] };
     shortLoop.reset();
     shortLoop.playOneStep();
     shortLoop.playOneStep();
@@ -481,6 +494,8 @@ describe('Loop short-circuiting', () => {
       ({ loop }) => stepSpy1(loop),
       ({ loop }) => stepSpy2('end', loop)
     ]});
+    // @ts-ignore mock gameManager
+    shortLoop.gameManager = { interruptSignal: [] };
     shortLoop.reset();
     shortLoop.playOneStep();
     shortLoop.playOneStep();
@@ -501,7 +516,7 @@ describe('Loop short-circuiting', () => {
   it('rejects interrupt with no loop', () => {
     const badLoop = ifElse({ if: () => true, do: Do.break })
     // @ts-ignore mock gameManager
-    badLoop.gameManager = {phase: 'started'};
+    badLoop.gameManager = {phase: 'started', interruptSignal: []};
     badLoop.reset();
     expect(() => badLoop.play()).to.throw(/Do\.break/);
   });
@@ -517,6 +532,8 @@ describe('Loop short-circuiting', () => {
       ]}),
       stepSpy3
     ]});
+    // @ts-ignore mock gameManager
+    shortLoop.gameManager = { interruptSignal: [] };
     shortLoop.reset();
     shortLoop.playOneStep();
     shortLoop.playOneStep();
@@ -553,6 +570,8 @@ describe('Loop short-circuiting', () => {
       ]}),
       stepSpy4
     )
+    // @ts-ignore mock gameManager
+    shortLoop.gameManager = { interruptSignal: [] };
     shortLoop.reset();
     shortLoop.playOneStep();
     shortLoop.playOneStep();
@@ -585,6 +604,7 @@ describe('Loop short-circuiting', () => {
     ]});
     const gameManager = {
       flow: shortLoop,
+      interruptSignal: [],
       players: {
         currentPosition: [1],
         atPosition: () => ({position: 1}),
@@ -617,6 +637,7 @@ describe('Loop short-circuiting', () => {
     });
     const gameManager = {
       flow: shortLoop,
+      interruptSignal: [],
       players: {
         currentPosition: [1],
         atPosition: () => ({position: 1}),
@@ -650,7 +671,7 @@ describe('SwitchCase', () => {
     )});
 
     // @ts-ignore
-    testFlow.gameManager = { flow: testFlow };
+    testFlow.gameManager = { flow: testFlow, interruptSignal: [] };
     testFlow.reset();
 
     expect(testFlow.branchJSON()).to.deep.equals([
@@ -684,7 +705,7 @@ describe('SwitchCase', () => {
     )});
 
     // @ts-ignore
-    testFlow.gameManager = { flow: testFlow };
+    testFlow.gameManager = { flow: testFlow, interruptSignal: [] };
     testFlow.reset();
 
     testFlow.setBranchFromJSON([
@@ -715,7 +736,7 @@ describe('SwitchCase', () => {
     )});
 
     // @ts-ignore
-    testFlow.gameManager = { flow: testFlow };
+    testFlow.gameManager = { flow: testFlow, interruptSignal: [] };
     testFlow.reset();
 
     expect(testFlow.branchJSON()).to.deep.equals([
@@ -758,7 +779,7 @@ describe('IfElse', () => {
     });
 
     // @ts-ignore
-    testFlow.gameManager = { flow: testFlow };
+    testFlow.gameManager = { flow: testFlow, interruptSignal: [] };
     testFlow.reset();
 
     expect(testFlow.branchJSON()).to.deep.equals([
@@ -1,11 +1,16 @@
 import chai from 'chai';
 import spies from 'chai-spies';
 
-import GameManager, { PlayerAttributes } from '../game-manager.js'
+import GameManager, { PlayerAttributes, ActionDebug } from '../game-manager.js'
 import Player from '../player/player.js';
-import { Game, Piece, Space } from '../board/index.js';
+import { Game, Piece, Space, Trick } from '../board/index.js';
 import { createGame } from '../game-creator.js';
+import type { SetupFunction } from '../game-creator.js';
 import { createInterface } from '../interface.js';
+import { applyStatePatch } from '../state-patch.js';
+import { exportRecord, replayRecord } from '../record.js';
+import type { GameUpdate, GameStartedState, GameState, GameInterface } from '../interface.js';
+import type { StatePatch } from '../state-patch.js';
 import { Do } from '../flow/enums.js';
 
 chai.use(spies);
@@ -47,6 +52,24 @@ describe('GameManager', () => {
   let game: TestGame;
   const spendSpy = chai.spy();
 
+  // start a game made with createGame, giving each player the tokens listed
+  const start = (setup: SetupFunction<TestGame>, playerCount: number, options?: { settings?: Record<string, any>, tokens?: number[] }) => {
+    const gameManager = setup({ players: players.slice(0, playerCount), settings: options?.settings ?? {}, randomSeed: 'seed' });
+    if (options?.tokens) gameManager.game.players.forEach((player, i) => player.tokens = options.tokens![i]);
+    gameManager.play();
+    return gameManager;
+  };
+
+  const move = (gameManager: GameManager<TestGame>, position: number, name: string, args: Record<string, any> = {}) => {
+    const error = gameManager.processMove({ player: gameManager.players.atPosition(position)!, name, args });
+    expect(error).to.be.undefined;
+    gameManager.play();
+  };
+
+  const allowed = (gameManager: GameManager<TestGame>, position: number) => (
+    gameManager.allowedActions(gameManager.players.atPosition(position)!).actions.map(a => a.name)
+  );
+
   beforeEach(() => {
     gameManager = new GameManager(TestPlayer, TestGame, [ Card, Country, General ]);
     game = gameManager.game;
@@ -372,6 +395,24 @@ describe('GameManager', () => {
       expect(gameManager.players[0]).to.not.equal(player);
     });
 
+    it('finds teams', () => {
+      const [player1, player2, player3, player4] = gameManager.players;
+      player1.team = 'north-south';
+      player2.team = 'east-west';
+      player3.team = 'north-south';
+      expect(gameManager.players.onTeam('north-south')).to.deep.equal([player1, player3]);
+      expect(gameManager.players.teammates(player1)).to.deep.equal([player3]);
+      expect(gameManager.players.opponents(player1)).to.deep.equal([player2, player4]);
+      expect(gameManager.players.teammates(player4)).to.deep.equal([]);
+      expect(gameManager.players.opponents(player4)).to.deep.equal([player1, player2, player3]);
+
+      game.finish('north-south');
+      expect(gameManager.winner).to.deep.equal([player1, player3]);
+
+      gameManager.players.fromJSON(gameManager.players.map(p => p.toJSON()));
+      expect(gameManager.players.map(p => p.team)).to.deep.equal(['north-south', 'east-west', 'north-south', undefined]);
+    });
+
     it('preserves serializable attributes from json', () => {
       gameManager.players[0].rival = gameManager.players[1];
 
@@ -1406,4 +1447,1565 @@ describe('GameManager', () => {
       expect(gameManager.allowedActions(gameManager.players[0]).actions[0].name).to.equal('takeOne');
     });
   });
+
+  describe("undo", () => {
+    const undoGame = createGame(TestPlayer, TestGame, game => {
+      const { playerActions, eachPlayer, loop } = game.flowCommands;
+      game.create(Space, 'pool');
+      game.create(Card, 'card').hideFromAll();
+      game.defineActions({
+        takeOne: player => game.action({
+          prompt: 'take one counter',
+        }).do(() => {
+          player.tokens ++;
+        }),
+        roll: () => game.action({
+          prompt: 'roll',
+        }).do(() => {
+          game.tokens = Math.ceil(game.random() * 6);
+        }),
+        reveal: () => game.action({
+          prompt: 'reveal',
+        }).do(() => {
+          game.first(Card)!.showToAll();
+        }),
+        revealAll: () => game.action({
+          prompt: 'reveal all',
+        }).do(() => {
+          game.all(Card).showToAll();
+        }),
+        commit: () => game.action({
+          prompt: 'commit',
+          undo: 'never',
+        }),
+      });
+      game.defineFlow(
+        loop(
+          eachPlayer({
+            name: 'player',
+            do: [
+              playerActions({ actions: ['takeOne', 'roll', 'reveal', 'revealAll', 'commit'] }),
+              playerActions({ actions: ['takeOne', 'roll'], undo: 'always' }),
+            ]
+          })
+        )
+      );
+    });
+
+    const iface = createInterface(undoGame);
+    let initialState: GameUpdate;
+
+    beforeEach(() => {
+      initialState = iface.initialState({ players, settings: {}, randomSeed: 'seed' });
+    });
+
+    const move = (state: GameUpdate, position: number, name: string) => iface.processMove(
+      state.game as GameStartedState,
+      { position, data: { name, args: {} } }
+    );
+
+    it('allows undo', () => {
+      const update = move(initialState, 1, 'takeOne');
+      expect(update.game.state.undo).to.deep.equal({ position: 1, sequence: initialState.game.state.sequence });
+
+      const undone = iface.undo(update.game as GameStartedState, initialState.game as GameStartedState, 1);
+      expect(undone.game.state.sequence).to.equal(update.game.state.sequence + 1);
+      expect(undone.game.state.undo).to.be.undefined;
+      expect(undone.game.state.players[0]).to.include({ tokens: 0 });
+      expect((undone.game as GameStartedState).currentPlayers).to.deep.equal([1]);
+    });
+
+    it('undoes consecutive moves by the same player', () => {
+      const update1 = move(initialState, 1, 'takeOne');
+      const update2 = move(update1, 1, 'takeOne');
+      expect(update2.game.state.undo).to.deep.equal({ position: 1, sequence: initialState.game.state.sequence });
+
+      expect(() => iface.undo(update2.game as GameStartedState, update1.game as GameStartedState, 1)).to.throw();
+      const undone = iface.undo(update2.game as GameStartedState, initialState.game as GameStartedState, 1);
+      expect(undone.game.state.players[0]).to.include({ tokens: 0 });
+    });
+
+    it('only allows undo by the last player to move', () => {
+      const update1 = move(initialState, 1, 'takeOne');
+      const update2 = move(update1, 1, 'takeOne');
+      const update3 = move(update2, 2, 'takeOne');
+      expect(update3.game.state.undo).to.deep.equal({ position: 2, sequence: update2.game.state.sequence });
+      expect(() => iface.undo(update3.game as GameStartedState, initialState.game as GameStartedState, 1)).to.throw();
+    });
+
+    it('disallows undo after randomness', () => {
+      const update = move(initialState, 1, 'roll');
+      expect(update.game.state.undo).to.be.undefined;
+    });
+
+    it('disallows undo after revealing', () => {
+      const update = move(initialState, 1, 'reveal');
+      expect(update.game.state.undo).to.be.undefined;
+    });
+
+    it('disallows undo after revealing a collection', () => {
+      const update = move(initialState, 1, 'revealAll');
+      expect(update.game.state.undo).to.be.undefined;
+    });
+
+    it('disallows undo by action policy', () => {
+      const update = move(initialState, 1, 'commit');
+      expect(update.game.state.undo).to.be.undefined;
+    });
+
+    it('allows undo by step policy', () => {
+      const update1 = move(initialState, 1, 'takeOne');
+      const update2 = move(update1, 1, 'roll');
+      expect(update2.game.state.undo).to.deep.equal({ position: 1, sequence: initialState.game.state.sequence });
+    });
+  });
+
+  describe("time limits", () => {
+    const timedGame = (onTimeout: 'pass' | 'random' | 'forfeit') => createGame(TestPlayer, TestGame, game => {
+      const { playerActions, eachPlayer, loop } = game.flowCommands;
+      game.defineActions({
+        takeOne: player => game.action({
+          prompt: 'take one counter',
+        }).do(() => {
+          player.tokens ++;
+        }),
+        takeTwo: player => game.action({
+          prompt: 'take two counters',
+        }).do(() => {
+          player.tokens += 2;
+        }),
+      });
+      game.defineFlow(
+        loop(
+          eachPlayer({
+            name: 'player',
+            do: playerActions({ actions: ['takeOne', 'takeTwo'], timeLimit: { turn: 1000, bank: 5000, onTimeout } })
+          })
+        )
+      );
+    });
+
+    let time: number;
+    const now = () => time;
+    const move = (iface: ReturnType<typeof createInterface>, state: GameUpdate, position: number, name: string) => iface.processMove(
+      state.game as GameStartedState,
+      { position, data: { name, args: {} } }
+    );
+
+    beforeEach(() => {
+      time = 0;
+    });
+
+    it('tracks time banks', () => {
+      const iface = createInterface(timedGame('pass'), { now });
+      const initialState = iface.initialState({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      expect(initialState.game.state.clocks).to.deep.equal({ 1: { bank: 5000, started: 0 } });
+
+      time = 3000;
+      const update = move(iface, initialState, 1, 'takeOne');
+      expect(update.game.state.clocks).to.deep.equal({ 1: { bank: 3000 }, 2: { bank: 5000, started: 3000 } });
+
+      time = 3500;
+      const update2 = move(iface, update, 2, 'takeOne');
+      expect(update2.game.state.clocks).to.deep.equal({ 1: { bank: 3000, started: 3500 }, 2: { bank: 5000 } });
+
+      time = 5000;
+      const gameManager = timedGame('pass')(update2.game.state);
+      gameManager.now = now;
+      expect(gameManager.timeRemaining(gameManager.players[0])).to.equal(2500);
+      expect(gameManager.timeRemaining(gameManager.players[1])).to.be.undefined;
+    });
+
+    it('rejects moves after time expires', () => {
+      const iface = createInterface(timedGame('pass'), { now });
+      const initialState = iface.initialState({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      time = 6000;
+      expect(() => move(iface, initialState, 1, 'takeOne')).to.throw('out of time');
+      time = 5999;
+      expect(() => move(iface, initialState, 1, 'takeOne')).not.to.throw();
+    });
+
+    it('does not let players skip a timed step', () => {
+      const iface = createInterface(timedGame('pass'), { now });
+      const initialState = iface.initialState({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      time = 1000;
+      expect(() => move(iface, initialState, 1, '__continue__')).to.throw('No action __continue__');
+    });
+
+    it('passes on timeout', () => {
+      const iface = createInterface(timedGame('pass'), { now });
+      const initialState = iface.initialState({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      expect(() => iface.processTimeout(initialState.game as GameStartedState)).to.throw('no player is out of time');
+
+      time = 6000;
+      const update = iface.processTimeout(initialState.game as GameStartedState);
+      expect((update.game as GameStartedState).currentPlayers).to.deep.equal([2]);
+      expect(update.game.state.players[0]).to.include({ tokens: 0 });
+      expect(update.game.state.clocks).to.deep.equal({ 1: { bank: 0 }, 2: { bank: 5000, started: 6000 } });
+      expect(update.messages[0].body).to.include('ran out of time');
+    });
+
+    it('plays a random move on timeout', () => {
+      const iface = createInterface(timedGame('random'), { now });
+      const initialState = iface.initialState({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      time = 6000;
+      const update = iface.processTimeout(initialState.game as GameStartedState);
+      expect((update.game as GameStartedState).currentPlayers).to.deep.equal([2]);
+      expect((update.game.state.players[0] as Record<string, any>).tokens).to.be.oneOf([1, 2]);
+    });
+
+    it('forfeits on timeout', () => {
+      const iface = createInterface(timedGame('forfeit'), { now });
+      const initialState = iface.initialState({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      time = 6000;
+      const update = iface.processTimeout(initialState.game as GameStartedState);
+      expect(update.game.phase).to.equal('finished');
+      if (update.game.phase === 'finished') expect(update.game.winners).to.deep.equal([2]);
+    });
+  });
+
+  describe("patches", () => {
+    const cardGame = createGame(TestPlayer, TestGame, game => {
+      const { playerActions, eachPlayer, loop } = game.flowCommands;
+      game.create(Space, 'deck');
+      game.create(Space, 'discard');
+      for (const player of game.players) game.create(Space, 'hand', { player });
+      $.deck.createMany(6, Card, 'card', n => ({ suit: 'H', value: n }));
+      $.deck.all(Card).hideFromAll();
+      game.all(Space, 'hand').forEach(hand => hand.onEnter(Card, card => card.showOnlyTo(hand.player!)));
+      game.defineActions({
+        draw: player => game.action({
+          prompt: 'draw',
+        }).do(() => {
+          $.deck.first(Card)!.putInto(game.first('hand', { player })!);
+          game.addDelay();
+          player.tokens ++;
+        }),
+        discard: player => game.action({
+          prompt: 'discard',
+        }).chooseOnBoard(
+          'card', game.first('hand', { player })!.all(Card)
+        ).do(({ card }) => {
+          card.putInto($.discard);
+          card.showToAll();
+          card.flipped = true;
+        }),
+      });
+      game.defineFlow(
+        loop(eachPlayer({ name: 'player', do: playerActions({ actions: ['draw', 'discard'] }) }))
+      );
+    });
+
+    const iface = createInterface(cardGame, { patches: true });
+
+    const apply = (previous: GameUpdate, update: GameUpdate) => {
+      for (const playerState of update.players) {
+        let state = previous.players.find(p => p.position === playerState.position)!.state;
+        if (state instanceof Array) state = state[state.length - 1];
+        const states = (playerState.patch instanceof Array ? playerState.patch : [playerState.patch!]).map(patch => state = applyStatePatch(state as GameState, patch));
+        expect(states).to.deep.equal(playerState.state instanceof Array ? playerState.state : [playerState.state]);
+      }
+    };
+
+    it('patches player states', () => {
+      const initialState = iface.initialState({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      expect(initialState.players[0].patch).to.be.undefined;
+
+      const update1 = iface.processMove(initialState.game as GameStartedState, { position: 1, data: { name: 'draw', args: {} } });
+      expect(update1.players[0].patch).to.be.an('array').with.lengthOf(2);
+      expect(JSON.stringify(update1.players[0].patch)).not.to.include('"children":[{');
+      apply(initialState, update1);
+
+      const update2 = iface.processMove(update1.game as GameStartedState, { position: 2, data: { name: 'draw', args: {} } });
+      apply(update1, update2);
+
+      const update3 = iface.processMove(update2.game as GameStartedState, { position: 1, data: { name: 'discard', args: { card: '$el[0/2/0]' } } });
+      apply(update2, update3);
+      const patch = update3.players[0].patch as StatePatch;
+      expect(patch.from).to.equal(update2.game.state.sequence);
+      expect(patch.ops.some(op => op.op === 'attributes' && op.set?.flipped)).to.be.true;
+    });
+
+    it('rejects patches to other states', () => {
+      const initialState = iface.initialState({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      const update1 = iface.processMove(initialState.game as GameStartedState, { position: 1, data: { name: 'draw', args: {} } });
+      const update2 = iface.processMove(update1.game as GameStartedState, { position: 2, data: { name: 'draw', args: {} } });
+      expect(() => applyStatePatch(initialState.players[0].state as GameState, (update2.players[0].patch as StatePatch[])[0])).to.throw('Cannot apply patch');
+    });
+  });
+
+  describe("warm games", () => {
+    const diceGame = createGame(TestPlayer, TestGame, game => {
+      const { playerActions, eachPlayer, loop } = game.flowCommands;
+      game.create(Space, 'bag');
+      game.create(Space, 'pool');
+      $.bag.createMany(6, Piece, 'die');
+      game.defineActions({
+        roll: player => game.action({
+          prompt: 'roll',
+        }).do(() => {
+          $.bag.first(Piece)!.putInto($.pool);
+          player.tokens += Math.ceil(game.random() * 6);
+        }).message('{{player}} rolled {{tokens}}', ({ tokens: player.tokens })),
+        wait: () => game.action({
+          prompt: 'wait',
+        }),
+      });
+      game.defineFlow(
+        loop(eachPlayer({ name: 'player', do: playerActions({ actions: ['roll', 'wait'] }) }))
+      );
+    });
+
+    let setups: number;
+    const now = () => 0;
+    const cold = createInterface(diceGame, { patches: true, now });
+    const warm = createInterface((state, options) => {
+      setups += 1;
+      return diceGame(state, options);
+    }, { warmGames: 1, patches: true, now });
+
+    beforeEach(() => {
+      setups = 0;
+    });
+
+    const roll = (iface: GameInterface, update: GameUpdate, position: number, name = 'roll') => iface.processMove(
+      structuredClone(update.game) as GameStartedState,
+      { position, data: { name, args: {} } }
+    );
+
+    it('applies moves to the game in memory', () => {
+      let coldUpdate = cold.initialState({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      let warmUpdate = warm.initialState({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      for (let i = 0; i !== 4; i++) {
+        coldUpdate = roll(cold, coldUpdate, i % 2 + 1);
+        warmUpdate = roll(warm, warmUpdate, i % 2 + 1);
+        expect(warmUpdate).to.deep.equal(coldUpdate);
+      }
+      expect(setups).to.equal(1);
+    });
+
+    it('patches from the previous state', () => {
+      const initialState = cold.initialState({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      const coldUpdate = roll(cold, roll(cold, initialState, 1), 2, 'wait');
+      const warmUpdate = roll(warm, roll(warm, initialState, 1), 2, 'wait');
+      expect(warmUpdate.players).to.deep.equal(coldUpdate.players);
+      expect((warmUpdate.players[0].patch as StatePatch).ops).to.deep.include({ op: 'set', key: 'messages', value: [] });
+    });
+
+    it('sets up the game again from an earlier state', () => {
+      const initialState = warm.initialState({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      const update1 = roll(warm, initialState, 1);
+      roll(warm, update1, 2);
+      const retry = roll(warm, update1, 2);
+      expect(retry).to.deep.equal(roll(cold, update1, 2));
+      expect(setups).to.equal(2);
+    });
+
+    it('sets up the game again after a failed move', () => {
+      const initialState = warm.initialState({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      expect(() => roll(warm, initialState, 1, 'fly')).to.throw();
+      const update1 = roll(warm, initialState, 1);
+      expect(update1).to.deep.equal(roll(cold, initialState, 1));
+      expect(setups).to.equal(2);
+    });
+
+    it('sets up the game again for another game with the same seed', () => {
+      const game1 = warm.initialState({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      warm.initialState({ players: players.slice(0, 2), settings: { variant: true }, randomSeed: 'seed' });
+      const update = roll(warm, game1, 1);
+      expect(update).to.deep.equal(roll(cold, game1, 1));
+      expect(setups).to.equal(3);
+    });
+
+    it('keeps only the most recent games', () => {
+      const game1 = warm.initialState({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed1' });
+      const game2 = warm.initialState({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed2' });
+      roll(warm, game2, 1);
+      roll(warm, game1, 1);
+      expect(setups).to.equal(3);
+    });
+  });
+
+  describe("records", () => {
+    const recordedGame = createGame(TestPlayer, TestGame, game => {
+      const { playerActions, eachPlayer, loop } = game.flowCommands;
+      game.defineActions({
+        take: player => game.action({
+          prompt: 'take counters',
+        }).chooseNumber(
+          'n', { min: 1, max: 3 }
+        ).do(({ n }) => {
+          player.tokens += n;
+          if (player.tokens >= 5) game.finish(player);
+        }).message('{{player}} took {{n}}'),
+      });
+      game.defineFlow(
+        loop(eachPlayer({ name: 'player', do: playerActions({ actions: ['take'], timeLimit: { turn: 1000 } }) }))
+      );
+    });
+
+    let time: number;
+    const iface = createInterface(recordedGame, { now: () => time });
+
+    beforeEach(() => {
+      time = 0;
+    });
+    const take = (state: GameUpdate, position: number, n: number) => iface.processMove(
+      state.game as GameStartedState,
+      { position, data: { name: 'take', args: { n } } }
+    );
+
+    it('exports records', () => {
+      const initialState = iface.initialState({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      time = 100;
+      const update1 = take(initialState, 1, 2);
+      time = 200;
+      const update2 = take(update1, 2, 3);
+
+      const record = exportRecord(recordedGame(update2.game.state));
+      expect(record.format).to.equal('boardzilla-game-record');
+      expect(record.setup.randomSeed).to.equal('seed');
+      expect(record.setup.players.map(p => p.position)).to.deep.equal([1, 2]);
+      expect(record.time).to.equal(0);
+      expect(record.moves).to.deep.equal([
+        { position: 1, data: [{ name: 'take', args: { n: 2 } }], sequence: 2, messages: ['[[$p[1]|Joe]] took 2'], time: 100 },
+        { position: 2, data: [{ name: 'take', args: { n: 3 } }], sequence: 3, messages: ['[[$p[2]|Jane]] took 3'], time: 200 },
+      ]);
+      expect(JSON.parse(JSON.stringify(record))).to.deep.equal(record);
+    });
+
+    it('replays records', () => {
+      const initialState = iface.initialState({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      const update1 = take(initialState, 1, 2);
+      time = 2000;
+      const update2 = iface.processTimeout(update1.game as GameStartedState);
+      const update3 = take(update2, 1, 3);
+      expect(update3.game.phase).to.equal('finished');
+
+      const record = exportRecord(recordedGame(update3.game.state));
+      expect(record.moves[1].data).to.deep.equal([{ name: '__timeout__', args: { player: '$p[2]' } }]);
+
+      time = 100000;
+      const replay = replayRecord(iface, record);
+      expect(replay.differences).to.deep.equal([]);
+      expect(replay.updates.length).to.equal(3);
+      expect(replay.updates[2].game.state.board).to.deep.equal(update3.game.state.board);
+      expect(replay.updates[2].game.state.players).to.deep.equal(update3.game.state.players);
+      expect(replay.updates[1].game.state.clocks).to.deep.equal({ 1: { bank: 0, started: 2000 }, 2: { bank: 0 } });
+    });
+
+    it('finds differences in replays', () => {
+      const initialState = iface.initialState({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      const update1 = take(initialState, 1, 2);
+      const record = exportRecord(recordedGame(update1.game.state));
+      record.moves[0].messages = ['[[$p[1]|Joe]] took 3'];
+      record.moves.push({ position: 1, data: [{ name: 'take', args: { n: 1 } }], sequence: 2, messages: [] });
+
+      const replay = replayRecord(iface, record);
+      expect(replay.differences).to.deep.equal([
+        'move #2: Move take from player #1 not allowed. Current players: #2',
+        'replayed 1 of 2 moves',
+        'move #1: expected messages ["[[$p[1]|Joe]] took 3"] but found ["[[$p[1]|Joe]] took 2"]',
+      ]);
+      expect(() => replayRecord(iface, { ...record, version: 2 as 1 })).to.throw('unsupported record version');
+    });
+  });
+
+  describe("events", () => {
+    const eventGame = createGame(TestPlayer, TestGame, game => {
+      const { playerActions, eachPlayer, forLoop } = game.flowCommands;
+      game.create(Space, 'deck');
+      game.create(Space, 'discard');
+      for (const player of game.players) game.create(Space, 'hand', { player });
+      $.deck.createMany(6, Card, 'card', n => ({ suit: 'H', value: n }));
+      $.deck.all(Card).hideFromAll();
+      game.all(Space, 'hand').forEach(hand => hand.onEnter(Card, card => card.showOnlyTo(hand.player!)));
+      game.defineActions({
+        draw: player => game.action().do(() => {
+          $.deck.first(Card)!.putInto(game.first('hand', { player })!);
+        }),
+        discard: player => game.action().chooseOnBoard(
+          'card', game.first('hand', { player })!.all(Card)
+        ).do(({ card }) => {
+          card.putInto($.discard);
+          card.showToAll();
+          Do.subflow('bonus', { card });
+        }),
+      });
+      game.defineFlow(
+        forLoop({ name: 'round', initial: 1, next: round => round + 1, while: round => round <= 3, do: (
+          eachPlayer({ name: 'turn', do: playerActions({ actions: ['draw', 'discard'] }) })
+        )}),
+        () => game.finish(),
+      );
+      game.defineSubflow('bonus', playerActions({ actions: ['draw'] }));
+    });
+
+    const iface = createInterface(eventGame);
+
+    it('records events', () => {
+      const gameManager = eventGame({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      gameManager.play();
+      const [player1, player2] = gameManager.game.players;
+      expect(gameManager.game.history()).to.deep.equal([]);
+
+      gameManager.processMove({ player: player1, name: 'draw', args: {} });
+      gameManager.play();
+      const card = gameManager.game.first('hand', { player: player1 })!.first(Card)!;
+      expect(gameManager.game.history()).to.deep.equal([
+        { type: 'move', name: 'draw', args: {}, player: player1, sequence: 0, scope: [['round', 0], ['turn', 0]] },
+        { type: 'visibility', piece: card, revealedTo: [1], hiddenFrom: [], player: player1, sequence: 0, scope: [['round', 0], ['turn', 0]], _hidden: { piece: [2] } },
+        { type: 'movement', piece: card, from: $.deck, to: gameManager.game.first('hand', { player: player1 }), player: player1, sequence: 0, scope: [['round', 0], ['turn', 0]], _hidden: { piece: [2] } },
+      ]);
+
+      expect(gameManager.processMove({ player: player2, name: 'discard', args: {} })).to.equal('Selected element is not valid');
+      expect(gameManager.game.history()).to.have.lengthOf(3);
+
+      gameManager.game.finish(player2);
+      expect(gameManager.game.history('finish')).to.deep.equal([
+        { type: 'finish', winners: [player2], sequence: 0, scope: [['round', 0], ['turn', 1]] },
+      ]);
+    });
+
+    it('queries events', () => {
+      const gameManager = eventGame({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      gameManager.play();
+      const [player1, player2] = gameManager.game.players;
+      for (const player of [player1, player2, player1]) {
+        gameManager.processMove({ player, name: 'draw', args: {} });
+        gameManager.play();
+      }
+      expect(gameManager.game.history('movement', { player: player1 })).to.have.lengthOf(2);
+      expect(gameManager.game.history('movement', { player: player1, during: 'round' })).to.have.lengthOf(1);
+      expect(gameManager.game.history('movement', { player: player2, during: 'round' })).to.have.lengthOf(0);
+      expect(gameManager.game.history('move', { during: 'round' }).map(e => e.player)).to.deep.equal([player1]);
+      expect(gameManager.game.history('move', { during: 'turn' })).to.deep.equal([]);
+      expect(() => gameManager.game.history('move', { during: 'hand' })).to.throw('No loop named "hand"');
+    });
+
+    it('records visibility changes to collections', () => {
+      const gameManager = eventGame({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      gameManager.play();
+      $.deck.all(Card).showToAll();
+      expect(gameManager.game.history('visibility')).to.have.lengthOf(6);
+      expect(gameManager.game.history('visibility').every(e => e.revealedTo.length === 2)).to.be.true;
+
+      $.deck.all(Card).hideFrom(2);
+      expect(gameManager.game.history('visibility').slice(6).map(e => e.hiddenFrom)).to.deep.equal(Array(6).fill([2]));
+    });
+
+    it('queries events by turn and round without loops of those names', () => {
+      const turnGame = createGame(TestPlayer, TestGame, game => {
+        const { playerActions, eachPlayer, forLoop } = game.flowCommands;
+        game.defineActions({
+          pass: () => game.action(),
+        });
+        game.defineFlow(forLoop({ name: 'hand', initial: 1, next: hand => hand + 1, while: () => true, do: (
+          eachPlayer({ name: 'player', do: playerActions({ actions: ['pass'] }) })
+        )}));
+      });
+      const gameManager = turnGame({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      gameManager.play();
+      const [player1, player2] = gameManager.game.players;
+      for (const player of [player1, player2, player1]) {
+        gameManager.processMove({ player, name: 'pass', args: {} });
+        gameManager.play();
+      }
+      expect(gameManager.game.history('move')).to.have.lengthOf(3);
+      expect(gameManager.game.history('move', { during: 'round' }).map(e => e.player)).to.deep.equal([player1]);
+      expect(gameManager.game.history('move', { during: 'turn' })).to.deep.equal([]);
+    });
+
+    it('records subflows', () => {
+      const gameManager = eventGame({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      gameManager.play();
+      const [player1, player2] = gameManager.game.players;
+      for (const player of [player1, player2]) {
+        gameManager.processMove({ player, name: 'draw', args: {} });
+        gameManager.play();
+      }
+      const card = gameManager.game.first('hand', { player: player1 })!.first(Card)!;
+      gameManager.processMove({ player: player1, name: 'discard', args: { card } });
+      gameManager.play();
+      expect(gameManager.game.history('subflow')).to.deep.equal([
+        { type: 'subflow', name: 'bonus', args: { card }, player: player1, sequence: 0, scope: [['round', 1], ['turn', 0]] },
+      ]);
+
+      gameManager.processMove({ player: player1, name: 'draw', args: {} });
+      expect(gameManager.game.history('movement', { player: player1, during: 'round' })).to.have.lengthOf(2);
+    });
+
+    it('scrubs events for each player', () => {
+      const initialState = iface.initialState({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      const update1 = iface.processMove(initialState.game as GameStartedState, { position: 1, data: { name: 'draw', args: {} } });
+      const update2 = iface.processMove(update1.game as GameStartedState, { position: 2, data: { name: 'draw', args: {} } });
+      const update3 = iface.processMove(update2.game as GameStartedState, { position: 1, data: { name: 'discard', args: { card: '$el[0/2/0]' } } });
+      const update4 = iface.processMove(update3.game as GameStartedState, { position: 1, data: { name: 'draw', args: {} } });
+
+      // each player is sent the events of each update
+      const events = (position: number, type: string) => [update1, update2, update3, update4].flatMap(
+        update => (update.players.find(p => p.position === position)!.state as GameState).events ?? []
+      ).filter(e => e.type === type);
+      expect(events(1, 'movement').map(e => e.piece)).to.deep.equal(['$el[0/2/0]', undefined, '$el[0/1/0]', '$el[0/2/0]']);
+      expect(events(2, 'movement').map(e => e.piece)).to.deep.equal([undefined, '$el[0/3/0]', undefined, undefined]);
+      expect(events(2, 'movement')[0].to).to.equal('$el[0/2]');
+      expect(events(2, 'visibility').map(e => e.piece)).to.deep.equal([undefined, '$el[0/3/0]', '$el[0/1/0]', undefined]);
+      expect(events(2, 'subflow')[0].args).to.deep.equal({ card: '$el[0/1/0]' });
+
+      const gameManager = eventGame(update4.game.state);
+      expect(gameManager.game.history('movement').map(e => (e.piece as Card).value)).to.deep.equal([1, 2, 1, 3]);
+      expect(update4.game.state.eventIndex).to.be.undefined;
+
+      // a player's copy of the game adds the events of each update to those it has
+      const state3 = update3.players[1].state as GameState;
+      const state4 = update4.players[1].state as GameState;
+      expect(state4.eventIndex).to.equal(gameManager.events.length - state4.events!.length);
+      const view = eventGame(state3);
+      expect(view.eventIndex).to.equal(state3.eventIndex);
+      view.setEventsFromJSON(state4.events!, state4.eventIndex);
+      expect(view.game.history('movement').map(e => (e.piece as Card | undefined)?.value)).to.deep.equal([undefined, undefined]);
+      expect(view.events.length).to.equal(gameManager.events.length - state3.eventIndex!);
+    });
+  });
+
+  describe("elimination", () => {
+    const eliminationGame = (flow: 'each' | 'every') => createGame(TestPlayer, TestGame, game => {
+      const { playerActions, eachPlayer, everyPlayer, loop } = game.flowCommands;
+      game.defineActions({
+        take: player => game.action().do(() => { player.tokens ++ }),
+        resign: player => game.action().do(() => player.resign()),
+        knockOut: player => game.action().do(() => game.eliminate(game.players.after(player))),
+      });
+      game.onEliminate(player => {
+        player.tokens = 0;
+        if (game.players.active().length === 1) game.finish(game.players.active()[0]);
+      });
+      if (flow === 'each') {
+        game.defineFlow(loop(eachPlayer({ name: 'player', do: playerActions({ actions: ['take', 'resign', 'knockOut'] }) })));
+      } else {
+        game.defineFlow(everyPlayer({ do: playerActions({ actions: ['take', 'knockOut'] }) }), () => game.finish());
+      }
+    });
+
+    it('skips eliminated players', () => {
+      const gameManager = eliminationGame('each')({ players: players.slice(0, 3), settings: {}, randomSeed: 'seed' });
+      gameManager.play();
+      const [player1, player2, player3] = gameManager.game.players;
+      player2.tokens = 3;
+
+      gameManager.processMove({ player: player1, name: 'knockOut', args: {} });
+      gameManager.play();
+      expect(player2.eliminated).to.equal(1);
+      expect(player2.tokens).to.equal(0);
+      expect(gameManager.players.active()).to.deep.equal([player1, player3]);
+      expect(gameManager.players.after(player1)).to.equal(player3);
+      expect(gameManager.players.currentPosition).to.deep.equal([3]);
+      expect(gameManager.game.history('elimination')).to.have.lengthOf(1);
+      expect(gameManager.game.history('elimination')[0].eliminated).to.equal(player2);
+
+      gameManager.processMove({ player: player3, name: 'take', args: {} });
+      gameManager.play();
+      expect(gameManager.players.currentPosition).to.deep.equal([1]);
+      gameManager.processMove({ player: player1, name: 'take', args: {} });
+      gameManager.play();
+      expect(gameManager.players.currentPosition).to.deep.equal([3]);
+      expect(() => gameManager.processMove({ player: player2, name: 'take', args: {} })).to.throw('not allowed');
+    });
+
+    it('records resignations', () => {
+      const iface = createInterface(eliminationGame('each'));
+      const initialState = iface.initialState({ players: players.slice(0, 3), settings: {}, randomSeed: 'seed' });
+      const update1 = iface.processMove(initialState.game as GameStartedState, { position: 1, data: { name: 'resign', args: {} } });
+      expect((update1.game as GameStartedState).currentPlayers).to.deep.equal([2]);
+      expect(update1.game.state.players.map(p => p.eliminated)).to.deep.equal([1, undefined, undefined]);
+
+      const update2 = iface.processMove(update1.game as GameStartedState, { position: 2, data: { name: 'resign', args: {} } });
+      expect(update2.game.phase).to.equal('finished');
+      if (update2.game.phase === 'finished') expect(update2.game.winners).to.deep.equal([3]);
+      const gameManager = eliminationGame('each')(update2.game.state);
+      expect(gameManager.players.eliminated().map(p => p.position)).to.deep.equal([1, 2]);
+    });
+
+    it('does not wait for eliminated players', () => {
+      const gameManager = eliminationGame('every')({ players: players.slice(0, 3), settings: {}, randomSeed: 'seed' });
+      gameManager.play();
+      const [player1, _player2, player3] = gameManager.game.players;
+      expect(gameManager.players.currentPosition).to.deep.equal([1, 2, 3]);
+
+      gameManager.processMove({ player: player1, name: 'knockOut', args: {} });
+      gameManager.play();
+      expect(gameManager.players.currentPosition).to.deep.equal([3]);
+
+      gameManager.processMove({ player: player3, name: 'take', args: {} });
+      gameManager.play();
+      expect(gameManager.phase).to.equal('finished');
+    });
+  });
+
+  describe("ranking", () => {
+    const rankedGame = (finish: (game: TestGame) => void) => createGame(TestPlayer, TestGame, game => {
+      const { playerActions } = game.flowCommands;
+      game.defineActions({
+        end: () => game.action().do(() => finish(game)),
+      });
+      game.defineFlow(
+        () => game.players.forEach((player, i) => player.tokens = [3, 5, 3, 1][i]),
+        () => game.eliminate(game.players[3]),
+        playerActions({ actions: ['end'] }),
+      );
+    });
+
+    const end = (game: (game: TestGame) => void) => {
+      const iface = createInterface(rankedGame(game));
+      const initialState = iface.initialState({ players, settings: {}, randomSeed: 'seed' });
+      return iface.processMove(initialState.game as GameStartedState, { position: 1, data: { name: 'end', args: {} } });
+    }
+
+    it('ranks by score', () => {
+      const update = end(game => game.finishRanked({ score: player => player.tokens, summary: player => `${player.tokens} tokens` }));
+      expect(update.game.phase).to.equal('finished');
+      if (update.game.phase !== 'finished') return;
+      expect(update.game.winners).to.deep.equal([2]);
+      expect(update.game.ranking).to.deep.equal([
+        { position: 2, place: 1, score: 5, summary: '5 tokens' },
+        { position: 1, place: 2, score: 3, summary: '3 tokens' },
+        { position: 3, place: 2, score: 3, summary: '3 tokens' },
+        { position: 4, place: 4, score: 1, summary: '1 tokens' },
+      ]);
+      expect(update.players.map(p => [p.score, p.summary])).to.deep.equal([[3, '3 tokens'], [5, '5 tokens'], [3, '3 tokens'], [1, '1 tokens']]);
+
+      const gameManager = rankedGame(() => {})(update.game.state);
+      expect(gameManager.ranking.map(r => [r.player.name, r.place])).to.deep.equal([['Jane', 1], ['Joe', 2], ['Jag', 2], ['Jin', 4]]);
+    });
+
+    it('breaks ties', () => {
+      const update = end(game => game.finishRanked({ score: player => player.tokens, tiebreakers: [player => player.position], lowestScoreWins: true }));
+      if (update.game.phase !== 'finished') throw Error('game not finished');
+      expect(update.game.winners).to.deep.equal([3]);
+      expect(update.game.ranking!.map(r => [r.position, r.place])).to.deep.equal([[3, 1], [1, 2], [2, 3], [4, 4]]);
+    });
+
+    it('ranks by placement', () => {
+      const update = end(game => game.finishRanked({ placements: [[game.players[0], game.players[1]]] }));
+      if (update.game.phase !== 'finished') throw Error('game not finished');
+      expect(update.game.winners).to.deep.equal([1, 2]);
+      expect(update.game.ranking).to.deep.equal([
+        { position: 1, place: 1 },
+        { position: 2, place: 1 },
+        { position: 3, place: 3 },
+        { position: 4, place: 4 },
+      ]);
+      expect(update.players[0].score).to.be.undefined;
+    });
+  });
+
+  describe("scoring", () => {
+    const scoredGame = createGame(TestPlayer, TestGame, game => {
+      const { playerActions, eachPlayer, loop } = game.flowCommands;
+      game.defineActions({
+        take: player => game.action().chooseNumber('n', { min: 1, max: 3 }).do(({ n }) => { player.tokens += n }),
+      });
+      game.defineScoring({
+        score: player => player.tokens * 10,
+        summary: player => `${player.tokens} tokens`,
+      });
+      game.defineFlow(loop(eachPlayer({ name: 'player', do: playerActions({ actions: ['take'] }) })));
+    });
+    const iface = createInterface(scoredGame);
+
+    it('reports scores after each move', () => {
+      const initialState = iface.initialState({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      expect(initialState.players.map(p => [p.score, p.summary])).to.deep.equal([[0, '0 tokens'], [0, '0 tokens']]);
+
+      const update = iface.processMove(initialState.game as GameStartedState, { position: 1, data: { name: 'take', args: { n: 2 } } });
+      expect(update.players.map(p => [p.score, p.summary])).to.deep.equal([[20, '2 tokens'], [0, '0 tokens']]);
+      expect((update.players[1].state as GameState).scores).to.deep.equal({
+        1: { score: 20, summary: '2 tokens' },
+        2: { score: 0, summary: '0 tokens' },
+      });
+      expect(scoredGame(update.players[1].state as GameState).scores[1].score).to.equal(20);
+    });
+
+    it('scores only what each player can see', () => {
+      const hiddenScoreGame = createGame(TestPlayer, TestGame, game => {
+        const { playerActions, eachPlayer, loop } = game.flowCommands;
+        for (const player of game.players) {
+          game.create(Space, 'hand', { player }).createMany(2, Card, 'card', n => ({ suit: 'H', value: n + player.position }));
+          game.first('hand', { player })!.all(Card).showOnlyTo(player);
+        }
+        game.defineActions({
+          pass: () => game.action(),
+        });
+        game.defineScoring({
+          score: player => game.first('hand', { player })!.all(Card).filter(card => card.isVisible()).sum(card => card.value),
+        });
+        game.defineFlow(loop(eachPlayer({ name: 'player', do: playerActions({ actions: ['pass'] }) })));
+      });
+      const initialState = createInterface(hiddenScoreGame).initialState({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      expect((initialState.players[0].state as GameState).scores).to.deep.equal({ 1: { score: 5 }, 2: { score: 0 } });
+      expect((initialState.players[1].state as GameState).scores).to.deep.equal({ 1: { score: 0 }, 2: { score: 7 } });
+      expect(initialState.spectator.scores).to.deep.equal({ 1: { score: 0 }, 2: { score: 0 } });
+      expect(initialState.players.map(p => p.score)).to.deep.equal([0, 0]);
+
+      const gameManager = hiddenScoreGame(initialState.game.state);
+      expect(gameManager.getState(gameManager.players[1]).scores).to.deep.equal({ 1: { score: 0 }, 2: { score: 7 } });
+    });
+  });
+
+  describe("spectators", () => {
+    const spectatedGame = createGame(TestPlayer, TestGame, game => {
+      const { playerActions, eachPlayer, loop } = game.flowCommands;
+      game.create(Space, 'deck');
+      game.create(Space, 'discard');
+      for (const player of game.players) {
+        game.create(Space, 'hand', { player }).blockViewFor('all-but-owner');
+        game.create(Space, 'tableau', { player });
+      }
+      $.deck.createMany(6, Card, 'card', n => ({ suit: 'H', value: n }));
+      $.deck.all(Card).hideFromAll();
+      game.defineActions({
+        draw: player => game.action().do(() => {
+          $.deck.first(Card)!.putInto(game.first('hand', { player })!);
+          $.deck.first(Card)!.putInto(game.first('tableau', { player })!);
+          game.first('tableau', { player })!.last(Card)!.showOnlyTo(player);
+          $.deck.first(Card)!.putInto($.discard);
+          $.discard.last(Card)!.showToAll();
+          game.message('{{player}} drew', { player });
+          game.messageTo(player, 'you drew');
+        }),
+      });
+      game.defineFlow(loop(eachPlayer({ name: 'player', do: playerActions({ actions: ['draw'] }) })));
+    });
+
+    it('shows spectators only what every player can see', () => {
+      TestPlayer.hide('rival');
+      const gameManager = spectatedGame({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      gameManager.play();
+      const [player1, player2] = gameManager.game.players;
+      player1.rival = player2;
+      gameManager.processMove({ player: player1, name: 'draw', args: {} });
+      gameManager.play();
+
+      const update = gameManager.getUpdate();
+      expect(update.spectator).to.deep.equal(gameManager.getSpectatorState());
+      const { board, players: playerJSON, messages, rseed, setup, events } = update.spectator;
+      const [deck, discard, hand1, tableau1] = board[0].children!;
+      expect(deck.children).to.have.lengthOf(3);
+      expect(deck.children!.every(card => card.value === undefined)).to.be.true;
+      expect(discard.children![0].value).to.equal(3);
+      expect(hand1.children).to.be.undefined;
+      expect(tableau1.children).to.have.lengthOf(1);
+      expect(tableau1.children![0].value).to.be.undefined;
+      expect((playerJSON[0] as Record<string, any>).rival).to.be.undefined;
+      expect(messages.map(m => m.body)).to.deep.equal(['[[$p[1]|Joe]] drew']);
+      expect(rseed).to.equal('');
+      expect(setup).to.be.undefined;
+      expect(events!.filter(e => e.type === 'movement').map(e => !!e.piece)).to.deep.equal([false, false, false]);
+      expect(events!.filter(e => e.type === 'visibility').map(e => !!e.piece)).to.deep.equal([false, true]);
+
+      const player1State = update.players[0].state as GameState;
+      expect(player1State.board[0].children![2].children).to.have.lengthOf(1);
+      expect(player1State.board[0].children![3].children![0].value).to.equal(2);
+      expect(player1State.messages).to.have.lengthOf(2);
+    });
+
+    it('shows spectators pieces visible to every player', () => {
+      const gameManager = spectatedGame({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      gameManager.play();
+      const card = $.deck.first(Card)!;
+      card.showTo(...gameManager.game.players);
+      expect(card.isVisibleTo(0)).to.be.true;
+      card.hideFrom(gameManager.game.players[1]);
+      expect(card.isVisibleTo(0)).to.be.false;
+
+      const hand = gameManager.game.first(Space, 'hand')!;
+      hand.blockViewFor([gameManager.game.players[1]]);
+      expect(hand._isScreenedFrom(1)).to.be.false;
+      expect(hand._isScreenedFrom(2)).to.be.true;
+      expect(hand._isScreenedFrom(0)).to.be.true;
+      hand.blockViewFor('none');
+      expect(hand._isScreenedFrom(0)).to.be.false;
+    });
+  });
+
+  describe("scrubbing", () => {
+    const secretGame = createGame(TestPlayer, TestGame, game => {
+      const { playerActions } = game.flowCommands;
+      for (const player of game.players) game.create(Space, 'hand', { player }).blockViewFor('all-but-owner');
+      game.create(Space, 'deck');
+      $.deck.createMany(4, Card, 'card', n => ({ suit: 'S', value: n }));
+      $.deck.all(Card).hideFromAll();
+      game.players[0].general = game.first('hand', { player: game.players[0] })!.create(General, 'napoleon');
+      game.defineActions({
+        draw: player => game.action().chooseOnBoard(
+          'card', $.deck.all(Card)
+        ).do(({ card }) => {
+          card.putInto(game.first('hand', { player })!);
+          card.showTo(player);
+          game.message('{{player}} drew {{card}}', { player, card });
+          Do.subflow('keep', { card });
+        }),
+        pass: () => game.action(),
+      });
+      game.defineFlow(playerActions({ player: game.players[0], actions: ['draw'] }));
+      game.defineSubflow('keep', playerActions({ player: game.players[1], actions: ['pass'] }));
+    });
+
+    it('hides hidden data from other players', () => {
+      TestPlayer.hide('rival');
+      const gameManager = secretGame({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      gameManager.play();
+      const [player1, player2] = gameManager.game.players;
+      player1.rival = player2;
+      gameManager.processMove({ player: player1, name: 'draw', args: { card: $.deck.first(Card)! } });
+      gameManager.play();
+
+      const [state1, state2] = gameManager.getPlayerStates().map(s => s.state as GameState);
+      expect(state1.position[0].args).to.deep.equal({ card: '$el[0/0/1]' });
+      expect(state1.position[1].stack[1].position.args).to.deep.equal({ card: '$el[0/0/1]' });
+      expect(state1.players[0]).to.include({ rival: '$p[2]', general: '$el[0/0/0]' });
+      expect(state1.messages.map(m => m.body)).to.deep.equal(['[[$p[1]|Joe]] drew [[$el[0/0/1]|card]]']);
+
+      expect(state2.position[0].args).to.deep.equal({ card: null });
+      expect(state2.position[1].stack[1].position.args).to.deep.equal({ card: null });
+      expect(state2.players[0]).to.include({ general: null }).and.not.to.have.property('rival');
+      expect(state2.messages.map(m => m.body)).to.deep.equal(['[[$p[1]|Joe]] drew Card']);
+      expect(JSON.stringify(state2)).not.to.include('$el[0/0/');
+
+      expect(gameManager.getSpectatorState().position[0].args).to.deep.equal({ card: null });
+      expect(gameManager.getState().position[0].args).to.deep.equal({ card: '$el[0/0/1]' });
+    });
+
+    it('hydrates from scrubbed state', () => {
+      const gameManager = secretGame({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      gameManager.play();
+      gameManager.processMove({ player: gameManager.game.players[0], name: 'draw', args: { card: $.deck.first(Card)! } });
+      gameManager.play();
+
+      const state = gameManager.getState(gameManager.game.players[1]);
+      const hydrated = secretGame(state);
+      const hydratedState = hydrated.getState(hydrated.game.players[1]);
+      expect(hydratedState.position).to.deep.equal(state.position);
+      expect(hydratedState.players).to.deep.equal(state.players);
+      expect(hydratedState.board).to.deep.equal(state.board);
+    });
+  });
+
+  describe("reaction windows", () => {
+    const battleGame = createGame(TestPlayer, TestGame, game => {
+      const { playerActions, eachPlayer, reactionWindow } = game.flowCommands;
+      game.defineActions({
+        attack: () => game.action().message('{{player}} attacks'),
+        block: player => game.action({ condition: player.tokens > 0 }).message('{{player}} blocks'),
+        feint: player => game.action({ condition: player.tokens > 0 }).message('{{player}} feints'),
+        rest: () => game.action().message('{{player}} rests'),
+      });
+      game.defineFlow(
+        eachPlayer({ name: 'player', do: [
+          playerActions({ actions: [
+            { name: 'attack', do: reactionWindow({ name: 'defender', actions: [
+              { name: 'block', do: reactionWindow({ name: 'attacker', actions: ['feint'] }) }
+            ]})},
+          ]}),
+          playerActions({ actions: ['rest'] }),
+        ]}),
+      );
+    });
+
+    it('offers reactions to other players in priority order', () => {
+      const gameManager = start(battleGame, 3, { tokens: [1, 1, 1] });
+      move(gameManager, 1, 'attack');
+      expect(gameManager.players.currentPosition).to.deep.equal([2]);
+      expect(allowed(gameManager, 2)).to.deep.equal(['block', '__pass__']);
+      move(gameManager, 2, '__pass__');
+      expect(gameManager.players.currentPosition).to.deep.equal([3]);
+      move(gameManager, 3, '__pass__');
+      expect(gameManager.players.currentPosition).to.deep.equal([1]);
+      expect(gameManager.flow().actionNeeded()?.actions.map(a => a.name)).to.deep.equal(['rest']);
+    });
+
+    it('resolves nested reactions and resumes the flow', () => {
+      const gameManager = start(battleGame, 3, { tokens: [1, 1, 0] });
+      move(gameManager, 1, 'attack');
+      move(gameManager, 2, 'block');
+      expect(gameManager.players.currentPosition).to.deep.equal([1]);
+      expect(allowed(gameManager, 1)).to.deep.equal(['feint', '__pass__']);
+
+      const hydrated = battleGame(gameManager.getState());
+      move(hydrated, 1, 'feint');
+      expect(hydrated.messages.map(m => m.body)).to.deep.equal(['[[$p[1]|Joe]] feints']);
+      expect(hydrated.players.currentPosition).to.deep.equal([1]);
+      expect(hydrated.flow().actionNeeded()?.actions.map(a => a.name)).to.deep.equal(['rest']);
+    });
+
+    it('does not ask players without reactions', () => {
+      const gameManager = start(battleGame, 3, { tokens: [1, 0, 0] });
+      move(gameManager, 1, 'attack');
+      expect(gameManager.players.currentPosition).to.deep.equal([1]);
+      expect(gameManager.flow().actionNeeded()?.actions.map(a => a.name)).to.deep.equal(['rest']);
+    });
+  });
+
+  describe("free actions", () => {
+    const tradeGame = createGame(TestPlayer, TestGame, game => {
+      const { playerActions, eachPlayer } = game.flowCommands;
+      game.defineActions({
+        draw: () => game.action().message('{{player}} draws'),
+        play: () => game.action().message('{{player}} plays'),
+        trade: player => game.action({ condition: player.tokens > 0 }).do(() => { player.tokens -= 1 }).message('{{player}} trades'),
+        peek: () => game.action().message('{{player}} peeks'),
+        haggle: () => game.action().do(() => Do.subflow('haggle')),
+        offer: () => game.action().message('{{player}} offers'),
+      });
+      game.defineFlow(
+        eachPlayer({ name: 'player', freeActions: ['trade'], do: [
+          playerActions({ actions: ['draw'] }),
+          playerActions({ actions: ['play', 'peek'] }),
+        ]}),
+      );
+      game.defineFreeActions(['peek', { name: 'haggle', prompt: 'Haggle' }]);
+      game.defineSubflow('haggle', playerActions({ actions: ['offer'] }));
+    });
+
+    let gameManager: GameManager<TestGame>;
+
+    beforeEach(() => {
+      gameManager = start(tradeGame, 2, { tokens: [1, 1] });
+    });
+
+    it('offers free actions alongside the current step', () => {
+      expect(allowed(gameManager, 1)).to.deep.equal(['draw', 'peek', 'haggle', 'trade']);
+      expect(allowed(gameManager, 2)).to.deep.equal([]);
+      expect(gameManager.allowedActions(gameManager.players.atPosition(1)!).actions.find(a => a.name === 'haggle')?.prompt).to.equal('Haggle');
+      expect(() => gameManager.processMove({ player: gameManager.players.atPosition(2)!, name: 'peek', args: {} })).to.throw();
+    });
+
+    it('does not advance the step', () => {
+      move(gameManager, 1, 'trade');
+      expect(gameManager.players.currentPosition).to.deep.equal([1]);
+      expect(allowed(gameManager, 1)).to.deep.equal(['draw', 'peek', 'haggle']);
+
+      const hydrated = tradeGame(gameManager.getState());
+      move(hydrated, 1, 'draw');
+      expect(hydrated.messages.map(m => m.body)).to.deep.equal(['[[$p[1]|Joe]] draws']);
+      // an action of the step is taken as part of the step
+      expect(allowed(hydrated, 1)).to.deep.equal(['play', 'peek', 'haggle']);
+      move(hydrated, 1, 'peek');
+      expect(hydrated.players.currentPosition).to.deep.equal([2]);
+      expect(allowed(hydrated, 2)).to.deep.equal(['draw', 'peek', 'haggle', 'trade']);
+    });
+
+    it('may enter a subflow', () => {
+      move(gameManager, 1, 'haggle');
+      expect(allowed(gameManager, 1)).to.deep.equal(['offer']);
+      move(gameManager, 1, 'offer');
+      expect(gameManager.players.currentPosition).to.deep.equal([1]);
+      expect(allowed(gameManager, 1)).to.deep.equal(['draw', 'peek', 'haggle', 'trade']);
+    });
+  });
+
+  describe("action limits", () => {
+    const limitGame = createGame(TestPlayer, TestGame, game => {
+      const { playerActions, eachPlayer, loop } = game.flowCommands;
+      game.defineActions({
+        trade: () => game.action({ limit: { uses: 1, per: 'turn' } }),
+        draw: () => game.action({ limit: { uses: 2, per: 'round' } }),
+        end: () => game.action().do(() => Do.break()),
+      });
+      game.defineFlow(
+        eachPlayer({ name: 'player', turns: 2, do: loop(playerActions({ actions: ['trade', 'draw', 'end'] })) }),
+      );
+    });
+
+    let gameManager: GameManager<TestGame>;
+
+    beforeEach(() => {
+      gameManager = start(limitGame, 2);
+    });
+
+    it('limits uses per turn', () => {
+      move(gameManager, 1, 'trade');
+      expect(allowed(gameManager, 1)).to.deep.equal(['draw', 'end']);
+      expect(gameManager.processMove({ player: gameManager.players.atPosition(1)!, name: 'trade', args: {} })).to.equal('trade action not possible');
+
+      const debug: ActionDebug = {};
+      gameManager.allowedActions(gameManager.players.atPosition(1)!, debug);
+      expect(debug.trade).to.deep.equal({ impossible: true, args: {}, limit: '1 per turn' });
+
+      move(gameManager, 1, 'end');
+      expect(allowed(gameManager, 2)).to.deep.equal(['trade', 'draw', 'end']);
+      move(gameManager, 2, 'trade');
+      move(gameManager, 2, 'end');
+      expect(gameManager.players.currentPosition).to.deep.equal([1]);
+      expect(allowed(gameManager, 1)).to.deep.equal(['trade', 'draw', 'end']);
+    });
+
+    it('limits uses per round', () => {
+      move(gameManager, 1, 'draw');
+      expect(gameManager.getState().actionUses).to.deep.equal({ 1: { draw: { per: 'round', scope: [['player', 0]], uses: 1 } } });
+
+      const hydrated = limitGame(gameManager.getState());
+      move(hydrated, 1, 'draw');
+      expect(allowed(hydrated, 1)).to.deep.equal(['trade', 'end']);
+      move(hydrated, 1, 'end');
+      expect(allowed(hydrated, 2)).to.deep.equal(['trade', 'draw', 'end']);
+      move(hydrated, 2, 'end');
+      expect(allowed(hydrated, 1)).to.deep.equal(['trade', 'draw', 'end']);
+    });
+  });
+
+  describe("effects", () => {
+    const effectGame = createGame(TestPlayer, TestGame, game => {
+      const { playerActions, eachPlayer, loop } = game.flowCommands;
+      game.create(Space, 'market');
+      game.defineActions({
+        bless: player => game.action().do(() => {
+          game.addEffect('discount', { on: player, value: 1, until: 'turn' });
+          game.addEffect('blocked', { on: $.market, until: 'round' });
+        }),
+        rush: () => game.action().do(() => {
+          game.addEffect('haste', { until: 'action' });
+          game.addEffect('curse');
+        }).message('{{haste}} haste', () => ({ haste: game.effects('haste').length })),
+        end: () => game.action().do(() => Do.break()),
+      });
+      game.defineFlow(
+        eachPlayer({ name: 'player', turns: 2, do: loop(playerActions({ actions: ['bless', 'rush', 'end'] })) }),
+      );
+    });
+
+    let gameManager: GameManager<TestGame>;
+
+    beforeEach(() => {
+      gameManager = start(effectGame, 2);
+    });
+
+    it('lasts until the end of its loop', () => {
+      move(gameManager, 1, 'bless');
+      const [player1, player2] = gameManager.game.players;
+      expect(gameManager.game.effects('discount', player1).map(e => e.value)).to.deep.equal([1]);
+      expect(gameManager.game.effects('discount', player2)).to.deep.equal([]);
+
+      const hydrated = effectGame(gameManager.getState());
+      const market = hydrated.game.first(Space, 'market')!;
+      expect(hydrated.game.effects('discount', hydrated.game.players[0]).map(e => e.value)).to.deep.equal([1]);
+      expect(hydrated.game.effects('blocked', market)).to.have.lengthOf(1);
+      move(hydrated, 1, 'end');
+      expect(hydrated.game.effects('discount', hydrated.game.players[0])).to.deep.equal([]);
+      expect(hydrated.game.effects('blocked', market)).to.have.lengthOf(1);
+      move(hydrated, 2, 'end');
+      expect(hydrated.game.effects('blocked', market)).to.deep.equal([]);
+      expect(hydrated.effects).to.deep.equal([]);
+    });
+
+    it('lasts for an action or permanently', () => {
+      move(gameManager, 1, 'rush');
+      expect(gameManager.messages.map(m => m.body)).to.deep.equal(['1 haste']);
+      expect(gameManager.game.effects('haste')).to.deep.equal([]);
+      expect(gameManager.game.effects('curse')).to.have.lengthOf(1);
+      expect(gameManager.game.effects('curse', gameManager.game.players[1])).to.have.lengthOf(1);
+      move(gameManager, 1, 'end');
+      move(gameManager, 2, 'end');
+      expect(gameManager.game.effects('curse')).to.have.lengthOf(1);
+    });
+  });
+
+  describe("auctions", () => {
+    const auctionGame = createGame(TestPlayer, TestGame, game => {
+      const { auction, sealedAuction } = game.flowCommands;
+      game.defineActions({
+        bid: player => game.action<{ minimum: number }>().chooseNumber('amount', { min: ({ minimum }) => minimum, max: player.tokens }),
+      });
+      const sell = ({ lot: { winner, price } }: Record<string, any>) => {
+        if (!winner) return game.message('No sale');
+        winner.tokens -= price;
+        game.message('{{winner}} buys for {{price}}', { winner, price });
+      };
+      game.defineFlow(
+        game.setting('sealed') ?
+          sealedAuction({ name: 'lot', bid: 'bid', minimum: 2, do: sell }) :
+          auction({ name: 'lot', bid: 'bid', minimum: 2, increment: 2, do: sell }),
+      );
+    });
+
+    it('continues until all but the high bidder pass', () => {
+      const gameManager = start(auctionGame, 3, { tokens: [10, 10, 10] });
+      expect(gameManager.players.currentPosition).to.deep.equal([1]);
+      move(gameManager, 1, 'bid', { amount: 2 });
+      expect(gameManager.players.currentPosition).to.deep.equal([2]);
+      expect(gameManager.processMove({ player: gameManager.players.atPosition(2)!, name: 'bid', args: { amount: 3 } })).to.equal('Bid must be at least 4');
+      move(gameManager, 2, 'bid', { amount: 4 });
+      move(gameManager, 3, '__pass__');
+
+      const hydrated = auctionGame(gameManager.getState());
+      expect(hydrated.players.currentPosition).to.deep.equal([1]);
+      move(hydrated, 1, '__pass__');
+      expect(hydrated.messages.map(m => m.body)).to.deep.equal(['[[$p[2]|Jane]] buys for 4']);
+      expect(hydrated.game.players.map(p => p.tokens)).to.deep.equal([10, 6, 10]);
+      expect(hydrated.phase).to.equal('finished');
+    });
+
+    it('has no winner if every player passes', () => {
+      const gameManager = start(auctionGame, 3, { tokens: [10, 10, 10] });
+      move(gameManager, 1, '__pass__');
+      move(gameManager, 2, '__pass__');
+      move(gameManager, 3, '__pass__');
+      expect(gameManager.messages.map(m => m.body)).to.deep.equal(['No sale']);
+    });
+
+    it('hides sealed bids until every player has bid', () => {
+      const gameManager = start(auctionGame, 3, { settings: { sealed: true }, tokens: [10, 10, 10] });
+      expect(gameManager.players.currentPosition).to.deep.equal([1, 2, 3]);
+      move(gameManager, 1, 'bid', { amount: 5 });
+      expect(JSON.stringify(gameManager.getState(gameManager.game.players[1]))).to.not.include('"amount":5');
+      expect(JSON.stringify(gameManager.getState())).to.include('"amount":5');
+
+      const hydrated = auctionGame(gameManager.getState());
+      move(hydrated, 3, '__pass__');
+      move(hydrated, 2, 'bid', { amount: 7 });
+      expect(hydrated.messages.map(m => m.body)).to.deep.equal(['[[$p[2]|Jane]] buys for 7']);
+      expect(hydrated.game.players.map(p => p.tokens)).to.deep.equal([10, 3, 10]);
+    });
+  });
+
+  describe("sealed everyPlayer", () => {
+    const sealedGame = createGame(TestPlayer, TestGame, game => {
+      const { everyPlayer, playerActions } = game.flowCommands;
+      game.create(Space, 'pool');
+      for (const player of game.players) game.create(Space, 'hand', { player });
+      $.pool.createMany(3, Card, 'card', n => ({ suit: 'S', value: n }));
+      game.defineActions({
+        take: player => game.action().chooseOnBoard(
+          'card', $.pool.all(Card)
+        ).do(
+          ({ card }) => card.putInto(game.first('hand', { player })!)
+        ).message('{{player}} takes a card'),
+      });
+      game.defineFlow(everyPlayer({ sealed: true, do: playerActions({ actions: ['take'] }) }));
+    });
+
+    const setup = () => {
+      const gameManager = sealedGame({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      gameManager.play();
+      return gameManager;
+    };
+
+    const take = (gameManager: GameManager<TestGame>, position: number, value: number) => {
+      const error = gameManager.processMove({
+        player: gameManager.players.atPosition(position)!,
+        name: 'take',
+        args: { card: gameManager.game.first(Card, { value })! }
+      });
+      expect(error).to.be.undefined;
+      gameManager.play();
+    };
+
+    const hand = (gameManager: GameManager<TestGame>, position: number) => (
+      gameManager.game.first('hand', { player: gameManager.players.atPosition(position) })!.all(Card).map(c => c.value)
+    );
+
+    it('holds moves until every player has committed', () => {
+      const gameManager = setup();
+      take(gameManager, 1, 1);
+      expect(hand(gameManager, 1)).to.deep.equal([]);
+      expect(gameManager.messages).to.deep.equal([]);
+      expect(gameManager.players.currentPosition).to.deep.equal([2]);
+
+      const hydrated = sealedGame(gameManager.getState());
+      take(hydrated, 2, 2);
+      expect(hand(hydrated, 1)).to.deep.equal([1]);
+      expect(hand(hydrated, 2)).to.deep.equal([2]);
+      expect(hydrated.messages.map(m => m.body)).to.deep.equal(['[[$p[1]|Joe]] takes a card', '[[$p[2]|Jane]] takes a card']);
+      expect(hydrated.phase).to.equal('finished');
+    });
+
+    it('hides commitments from other players', () => {
+      const gameManager = setup();
+      take(gameManager, 1, 1);
+      const commitments = (state: ReturnType<typeof gameManager.getState>) => state.position[0].stack.find(node => node.type === 'parallel')!.position.commitments;
+      expect(Object.keys(commitments(gameManager.getState()))).to.deep.equal(['1']);
+      expect(Object.keys(commitments(gameManager.getState(gameManager.players.atPosition(1)!)))).to.deep.equal(['1']);
+      expect(commitments(gameManager.getState(gameManager.players.atPosition(2)!))).to.deep.equal({});
+      expect(gameManager.getState(gameManager.players.atPosition(2)!).events!.find(e => e.type === 'move')!.args).to.deep.equal({});
+    });
+
+    it('resolves commitments in player order', () => {
+      const gameManager = setup();
+      take(gameManager, 2, 1);
+      take(gameManager, 1, 1);
+      expect(hand(gameManager, 1)).to.deep.equal([1]);
+      expect(hand(gameManager, 2)).to.deep.equal([]);
+      expect(gameManager.players.currentPosition).to.deep.equal([2]);
+      expect(gameManager.messages.filter(m => m.position === 2).map(m => m.body)).to.have.length(1);
+      expect(gameManager.messages.find(m => m.position === 2)!.body).to.include('was discarded');
+      take(gameManager, 2, 3);
+      expect(hand(gameManager, 2)).to.deep.equal([3]);
+      expect(gameManager.phase).to.equal('finished');
+    });
+  });
+
+  describe("draft", () => {
+    const draftGame = createGame(TestPlayer, TestGame, game => {
+      const { draft } = game.flowCommands;
+      game.create(Space, 'deck');
+      for (const player of game.players) {
+        game.create(Space, 'pack', { player });
+        game.create(Space, 'tableau', { player });
+      }
+      $.deck.createMany(12, Card, 'card', n => ({ suit: 'S', value: n }));
+      game.defineActions({
+        pick: player => game.action().chooseOnBoard(
+          'card', game.first('pack', { player })!.all(Card)
+        ).do(
+          ({ card }) => card.putInto(game.first('tableau', { player })!)
+        ),
+      });
+      game.defineFlow(draft({
+        packs: player => game.first('pack', { player })!,
+        pick: 'pick',
+        rounds: 2,
+        deal: () => game.players.forEach(player => $.deck.firstN(2, Card).putInto(game.first('pack', { player })!)),
+      }));
+    });
+
+    const pick = (gameManager: GameManager<TestGame>, position: number, value: number) => {
+      const error = gameManager.processMove({
+        player: gameManager.players.atPosition(position)!,
+        name: 'pick',
+        args: { card: gameManager.game.first(Card, { value })! }
+      });
+      expect(error).to.be.undefined;
+      gameManager.play();
+    };
+
+    const pack = (gameManager: GameManager<TestGame>, position: number) => (
+      gameManager.game.first('pack', { player: gameManager.players.atPosition(position) })!.all(Card).map(c => c.value).sort((a, b) => a - b)
+    );
+
+    it('passes packs in alternating directions each round', () => {
+      const gameManager = draftGame({ players: players.slice(0, 3), settings: {}, randomSeed: 'seed' });
+      gameManager.play();
+      expect(gameManager.players.currentPosition).to.deep.equal([1, 2, 3]);
+      expect(pack(gameManager, 1)).to.deep.equal([1, 2]);
+      expect(gameManager.game.first(Card, { value: 1 })!.isVisibleTo(1)).to.be.true;
+      expect(gameManager.game.first(Card, { value: 1 })!.isVisibleTo(2)).to.be.false;
+
+      pick(gameManager, 1, 1);
+      pick(gameManager, 2, 3);
+      expect(gameManager.players.currentPosition).to.deep.equal([3]);
+      pick(gameManager, 3, 5);
+      expect(pack(gameManager, 1)).to.deep.equal([6]);
+      expect(pack(gameManager, 2)).to.deep.equal([2]);
+      expect(pack(gameManager, 3)).to.deep.equal([4]);
+      expect(gameManager.game.first(Card, { value: 2 })!.isVisibleTo(2)).to.be.true;
+      expect(gameManager.game.first(Card, { value: 2 })!.isVisibleTo(1)).to.be.false;
+
+      const hydrated = draftGame(gameManager.getState());
+      pick(hydrated, 1, 6);
+      pick(hydrated, 2, 2);
+      pick(hydrated, 3, 4);
+      expect(pack(hydrated, 1)).to.deep.equal([7, 8]);
+      pick(hydrated, 1, 7);
+      pick(hydrated, 2, 9);
+      pick(hydrated, 3, 11);
+      expect(pack(hydrated, 1)).to.deep.equal([10]);
+      expect(pack(hydrated, 2)).to.deep.equal([12]);
+      expect(pack(hydrated, 3)).to.deep.equal([8]);
+      pick(hydrated, 1, 10);
+      pick(hydrated, 2, 12);
+      pick(hydrated, 3, 8);
+      expect(hydrated.game.first('tableau', { player: hydrated.players.atPosition(1) })!.all(Card).map(c => c.value)).to.deep.equal([1, 6, 7, 10]);
+      expect(hydrated.phase).to.equal('finished');
+    });
+  });
+
+  describe("tricks", () => {
+    const trickGame = createGame(TestPlayer, TestGame, game => {
+      const { playTrick, loop } = game.flowCommands;
+      const trick = game.create(Trick, 'trick');
+      for (const player of game.players) {
+        game.create(Space, 'hand', { player });
+        game.create(Space, 'won', { player }).blockViewFor('all');
+      }
+      for (const [i, name] of ['H2', 'H5', 'S9', 'S4', 'H3', 'S2'].entries()) {
+        game.first('hand', { player: game.players[i % 2] })!.create(Card, name, { suit: name[0], value: parseInt(name[1]) });
+      }
+      game.defineActions({
+        play: player => game.action().chooseOnBoard(
+          'card', () => trick.legalPlays(game.first('hand', { player })!.all(Card), card => card.suit)
+        ).do(
+          ({ card }) => trick.play(card, player)
+        ),
+      });
+      game.defineFlow(loop(playTrick({
+        name: 'trick',
+        trick,
+        play: 'play',
+        suit: (card: Card) => card.suit,
+        rank: (card: Card) => card.value,
+        trump: () => game.setting('trump') as string | undefined,
+        do: [
+          ({ trick: { winner } }) => trick.all(Card).putInto(game.first('won', { player: winner })!),
+          () => { if (game.all('hand').every(hand => hand.isEmpty())) game.finish() },
+        ],
+      })));
+    });
+
+    const play = (gameManager: GameManager<TestGame>, position: number, name: string) => {
+      const error = gameManager.processMove({
+        player: gameManager.players.atPosition(position)!,
+        name: 'play',
+        args: { card: gameManager.game.first(Card, name)! }
+      });
+      expect(error).to.be.undefined;
+      gameManager.play();
+    };
+
+    const won = (gameManager: GameManager<TestGame>, position: number) => (
+      gameManager.game.first('won', { player: gameManager.players.atPosition(position) })!.all(Card).map(c => c.name)
+    );
+
+    it('has the winner lead the next trick', () => {
+      const gameManager = trickGame({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      gameManager.play();
+      expect(gameManager.players.currentPosition).to.deep.equal([1]);
+      play(gameManager, 1, 'H2');
+      expect(gameManager.processMove({
+        player: gameManager.players.atPosition(2)!,
+        name: 'play',
+        args: { card: gameManager.game.first(Card, 'S4')! }
+      })).to.not.be.undefined;
+      play(gameManager, 2, 'H5');
+      expect(won(gameManager, 2)).to.deep.equal(['H2', 'H5']);
+      expect(gameManager.players.currentPosition).to.deep.equal([2]);
+
+      const hydrated = trickGame(gameManager.getState());
+      play(hydrated, 2, 'S4');
+      play(hydrated, 1, 'S9');
+      expect(hydrated.players.currentPosition).to.deep.equal([1]);
+      play(hydrated, 1, 'H3');
+      play(hydrated, 2, 'S2');
+      expect(won(hydrated, 1)).to.deep.equal(['S4', 'S9', 'H3', 'S2']);
+      expect(hydrated.phase).to.equal('finished');
+    });
+
+    it('forgets plays once the pieces leave the trick', () => {
+      const gameManager = trickGame({ players: players.slice(0, 2), settings: {}, randomSeed: 'seed' });
+      gameManager.play();
+      play(gameManager, 1, 'H2');
+      play(gameManager, 2, 'H5');
+      expect(gameManager.game.first(Trick)!.plays).to.deep.equal([]);
+
+      for (const player of gameManager.players) {
+        const hydrated = trickGame(gameManager.getState(player));
+        expect(hydrated.game.first(Trick)!.plays).to.deep.equal([]);
+        expect(hydrated.game.first(Trick)!.playerOf(hydrated.game.first(Card)!)).to.be.undefined;
+      }
+    });
+
+    it('is won by the highest trump', () => {
+      const gameManager = trickGame({ players: players.slice(0, 2), settings: { trump: 'S' }, randomSeed: 'seed' });
+      gameManager.play();
+      play(gameManager, 1, 'H2');
+      play(gameManager, 2, 'H5');
+      play(gameManager, 2, 'S4');
+      play(gameManager, 1, 'S9');
+      play(gameManager, 1, 'H3');
+      play(gameManager, 2, 'S2');
+      expect(won(gameManager, 2)).to.deep.equal(['H2', 'H5', 'H3', 'S2']);
+    });
+  });
+
+  describe("pending moves", () => {
+    const handGame = createGame(TestPlayer, TestGame, game => {
+      const { playerActions, loop } = game.flowCommands;
+      game.create(Space, 'hand');
+      game.create(Space, 'table');
+      $.hand.createMany(20, Card, 'card', n => ({ suit: 'S', value: n }));
+      game.defineActions({
+        play: () => game.action().chooseOnBoard(
+          'cards', $.hand.all(Card), { number: 3 }
+        ).chooseFrom(
+          'total', [game.setting('total') as number], { validate: ({ cards, total }) => cards.reduce((sum, card) => sum + card.value, 0) === total }
+        ).do(
+          ({ cards }) => cards.forEach(card => card.putInto($.table))
+        ),
+      });
+      game.defineFlow(loop(playerActions({ actions: ['play'] })));
+    });
+
+    it('stops exploring once a move is possible', () => {
+      const gameManager = handGame({ players: players.slice(0, 2), settings: { total: 57 }, randomSeed: 'seed' });
+      gameManager.play();
+      const player = gameManager.game.players[0];
+      const pendingMoves = gameManager.getPendingMoves(player);
+      expect(pendingMoves?.moves[0].selections[0].name).to.equal('total');
+      expect((pendingMoves?.moves[0].args.cards as Card[]).map(card => card.value)).to.deep.equal([18, 19, 20]);
+      expect(gameManager.branchesExplored).to.be.below(1200);
+
+      const branchesExplored = gameManager.branchesExplored;
+      gameManager.getPendingMoves(player);
+      expect(gameManager.branchesExplored - branchesExplored).to.be.below(5);
+
+      expect(handGame({ players: players.slice(0, 2), settings: { total: 100 }, randomSeed: 'seed' }).getPendingMoves(player)).to.be.undefined;
+    });
+
+    it('explores again once the game changes', () => {
+      const gameManager = handGame({ players: players.slice(0, 2), settings: { total: 6 }, randomSeed: 'seed' });
+      gameManager.play();
+      const player = gameManager.game.players[0];
+      expect(gameManager.getPendingMoves(player)).not.to.be.undefined;
+      gameManager.processMove({ player, name: 'play', args: { cards: gameManager.game.first('hand')!.firstN(3, Card), total: 6 } });
+      gameManager.play();
+      expect(player.isCurrent()).to.be.true;
+      expect(gameManager.getPendingMoves(player)).to.be.undefined;
+    });
+  });
+
+  describe("concurrent games", () => {
+    const tokenGame = createGame(TestPlayer, TestGame, game => {
+      const { playerActions, loop } = game.flowCommands;
+      game.create(Space, 'pile');
+      $.pile.createMany(game.setting('tokens') as number, Piece, 'token');
+      game.defineActions({
+        take: player => game.action().do(() => {
+          $.pile.first(Piece)!.remove();
+          if (!$.pile.has(Piece)) Do.subflow('empty', { player });
+        }),
+      });
+      game.defineFlow(loop(playerActions({ actions: ['take'] })));
+      game.defineSubflow('empty', ({ player }) => game.finish(player));
+    });
+
+    it('keeps $ and Do separate for each game', () => {
+      const game1 = tokenGame({ players: players.slice(0, 2), settings: { tokens: 2 }, randomSeed: 'seed' });
+      const game2 = tokenGame({ players: players.slice(0, 2), settings: { tokens: 3 }, randomSeed: 'seed' });
+      game1.play();
+      game2.play();
+
+      game1.processMove({ player: game1.game.players[0], name: 'take', args: {} });
+      game1.play();
+      game2.processMove({ player: game2.game.players[0], name: 'take', args: {} });
+      game2.play();
+      expect(game1.game.first('pile')!.all(Piece)).to.have.lengthOf(1);
+      expect(game2.game.first('pile')!.all(Piece)).to.have.lengthOf(2);
+
+      game1.processMove({ player: game1.game.players[1], name: 'take', args: {} });
+      game1.play();
+      expect(game1.phase).to.equal('finished');
+      expect(game1.winner.map(p => p.position)).to.deep.equal([2]);
+      expect(game2.phase).to.equal('started');
+      expect($.pile).to.equal(game1.game.first('pile'));
+    });
+
+    it('restores the running game after playing another inside it', () => {
+      const game1 = tokenGame({ players: players.slice(0, 2), settings: { tokens: 2 }, randomSeed: 'seed' });
+      const game2 = tokenGame({ players: players.slice(0, 2), settings: { tokens: 3 }, randomSeed: 'seed' });
+      game1.inContext(() => {
+        expect($.pile).to.equal(game1.game.first('pile'));
+        game2.play();
+        expect($.pile).to.equal(game1.game.first('pile'));
+      });
+    });
+  });
 });
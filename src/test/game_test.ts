@@ -9,7 +9,8 @@ import {
   ConnectedSpaceMap,
   SquareGrid,
   HexGrid,
-  PieceGrid
+  PieceGrid,
+  Trick
 } from '../board/index.js';
 
 import {
@@ -18,6 +19,7 @@ import {
 } from '../player/index.js';
 import type { BaseGame } from '../board/game.js';
 import { applyLayouts } from '../ui/render.js';
+import { deserializeArg } from '../action/utils.js';
 
 chai.use(spies);
 const { expect } = chai;
@@ -47,7 +49,7 @@ describe('Game', () => {
   beforeEach(() => {
     game = new Game({
       // @ts-ignore
-      gameManager: { players, addDelay: () => {}, random: random.create('a').random },
+      gameManager: { players, addDelay: () => {}, addEvent: () => {}, random: random.create('a').random },
     });
     game._ctx.gameManager.game = game;
     game.setBoardSize({
@@ -326,6 +328,25 @@ describe('Game', () => {
       expect(pile.all(Card).length).to.equal(1);
     });
 
+    it('finds removed elements by branch', () => {
+      game.create(Card, 'AH', { suit: 'H', pip: 1 });
+      const h2 = game.create(Card, '2H', { suit: 'H', pip: 2 });
+      const h3 = game.create(Card, '3H', { suit: 'H', pip: 3 });
+      h2.remove();
+      h3.remove();
+      expect(h3.branch()).to.equal('1/1');
+      expect(game.atBranch('1/0')).to.equal(h2);
+      expect(game.atBranch('1/1')).to.equal(h3);
+      expect(deserializeArg('$el[1/1]', game)).to.equal(h3);
+    });
+
+    it('finds removed elements by id', () => {
+      game.create(Card, 'AH', { suit: 'H', pip: 1 });
+      const h2 = game.create(Card, '2H', { suit: 'H', pip: 2 });
+      h2.remove();
+      expect(deserializeArg(`$eid[${h2._t.id}]`, game)).to.equal(h2);
+    });
+
     it('moves', () => {
       const deck = game.create(Space, 'deck');
       const discard = game.create(Space, 'discard');
@@ -556,6 +577,27 @@ describe('Game', () => {
       expect(card.isVisibleTo(2)).to.equal(true);
     });
 
+    it("shows to teams", () => {
+      players[0].team = 'red';
+      players[1].team = 'blue';
+      const card = game.create(Card, 'AH', { suit: 'H', pip: 1 });
+      card.showOnlyTo('blue');
+      expect(card.isVisibleTo(1)).to.equal(false);
+      expect(card.isVisibleTo(2)).to.equal(true);
+      card.showTo('red');
+      expect(card.isVisibleTo(1)).to.equal(true);
+      card.hideFrom('blue');
+      expect(card.isVisibleTo(2)).to.equal(false);
+
+      const hand = game.create(Space, 'hand');
+      hand.contentsWillBeShownTo('blue');
+      card.putInto(hand);
+      expect(card.isVisibleTo(1)).to.equal(false);
+      expect(card.isVisibleTo(2)).to.equal(true);
+      delete players[0].team;
+      delete players[1].team;
+    });
+
     it("hides", () => {
       Card.revealWhenHidden('pip', 'flipped', 'state');
       const card = game.create(Card, 'AH', { suit: 'H', pip: 1 });
@@ -1301,4 +1343,53 @@ describe('Game', () => {
       expect(p2.rotation).equal(270);
     });
   });
+
+  describe('tricks', () => {
+    class Card extends Piece<Game> {
+      suit: string;
+      pip: number;
+    }
+
+    let trick: Trick<Game>;
+    let hand: Card[];
+    const suit = (card: Card) => card.suit;
+    const rank = (card: Card) => card.pip;
+
+    beforeEach(() => {
+      trick = game.create(Trick, 'trick');
+      const pile = game.create(Space, 'hand');
+      hand = ['H2', 'H9', 'S3', 'C4'].map(name => pile.create(Card, name, { suit: name[0], pip: parseInt(name.slice(1)) }));
+    });
+
+    it('records who played each piece', () => {
+      const card = game.create(Card, 'S5', { suit: 'S', pip: 5 });
+      trick.play(card, players[1]);
+      expect(card.container()).to.equal(trick);
+      expect(trick.playerOf(card)).to.equal(players[1]);
+      expect(trick.ledSuit(suit)).to.equal('S');
+
+      game.fromJSON(JSON.parse(JSON.stringify(game.allJSON())));
+      expect(trick.playerOf(trick.first(Card)!)).to.equal(players[1]);
+    });
+
+    it('requires following suit', () => {
+      expect(trick.legalPlays(hand, suit)).to.deep.equal(hand);
+      trick.play(game.create(Card, 'S5', { suit: 'S', pip: 5 }), players[1]);
+      expect(trick.legalPlays(hand, suit).map(c => c.name)).to.deep.equal(['S3']);
+      trick.play(game.create(Card, 'D5', { suit: 'D', pip: 5 }), players[1]);
+      trick.first(Card, 'S5')!.putInto(game);
+      trick.first(Card, 'D5')!.putInto(game);
+      trick.play(game.create(Card, 'D6', { suit: 'D', pip: 6 }), players[0]);
+      expect(trick.legalPlays(hand, suit)).to.deep.equal(hand);
+    });
+
+    it('finds the winner', () => {
+      trick.play(hand[0], players[0]);
+      trick.play(hand[1], players[1]);
+      trick.play(hand[2], players[0]);
+      expect(trick.winningPlay({ suit, rank })).to.deep.equal({ player: players[1], piece: hand[1] });
+      expect(trick.winningPlay({ suit, rank, trump: 'S' })).to.deep.equal({ player: players[0], piece: hand[2] });
+      expect(trick.winningPlay({ suit, rank, trump: 'C' })).to.deep.equal({ player: players[1], piece: hand[1] });
+    });
+  });
 });
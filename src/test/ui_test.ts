@@ -5,8 +5,10 @@ import Player from '../player/player.js';
 import { times } from '../utils.js';
 import { createGame } from '../game-creator.js';
 import { createGameStore } from '../ui/store.js';
+import { hashState } from '../state-hash.js';
 
 import type { SerializedMove } from '../game-manager.js';
+import type { GameState } from '../interface.js';
 
 import {
   starterGame,
@@ -240,6 +242,98 @@ describe('UI', () => {
     expect(history.length).to.equal(0);
   });
 
+  it("verifies state", () => {
+    const store = getGameStore(starterGame);
+    updateStore(store, 2, {tokens: 4});
+    expect(store.getState().desync).to.be.undefined;
+  });
+
+  it("reports desync", () => {
+    class ClientPlayer extends Player {
+      rank = 1;
+    }
+    const store = createGameStore();
+    store.getState().setSetup(createGame(ClientPlayer, Game, starterGame));
+
+    const gameManager = createGame(Player, Game, starterGame)({
+      players: times(2, p => ({ id: String(p), name: String(p), position: p, host: p === 1, color: '', avatar: '' })),
+      settings: {tokens: 4},
+      randomSeed: 'rseed',
+    });
+    gameManager.play();
+    const playerState = gameManager.getPlayerStates()[0];
+
+    const error = console.error;
+    console.error = () => {};
+    store.getState().updateState({
+      type: 'gameUpdate',
+      state: playerState.state as GameState,
+      hash: playerState.hash,
+      position: 1,
+      currentPlayers: gameManager.players.currentPosition
+    });
+    console.error = error;
+    expect(store.getState().desync).to.deep.equal(['players: expected [{"avatar":"","color":"","host":true,"id":"1","name":"1","position":1},{"avatar":"","color":"","host":false,"id":"2","name":"2","position":2}] but found [{"avatar":"","color":"","host":true,"id":"1","name":"1","position":1,"rank":1},{"avatar":"","color":"","host":false,"id":"2","name":"2","position":2,"rank":1}]']);
+  });
+
+  it("forgets possible moves when the state is replaced", () => {
+    const store = getGameStore(starterGame);
+
+    const gameManager = store.getState().setup!({
+      players: times(2, p => ({ id: String(p), name: String(p), position: p, host: p === 1, color: '', avatar: '', tokens: 0 })),
+      settings: {tokens: 4},
+      randomSeed: 'rseed',
+    });
+    gameManager.play();
+    let update = gameManager.getUpdate();
+    store.getState().updateState({
+      type: 'gameUpdate',
+      state: update.players[0].state as GameState,
+      position: 1,
+      currentPlayers: gameManager.players.currentPosition
+    });
+    expect(store.getState().gameManager.possibleMoves?.size).to.be.above(0);
+
+    gameManager.processMove({ player: gameManager.players[0], name: 'take', args: { token: gameManager.game.first(Token)! } });
+    gameManager.play();
+    update = gameManager.getUpdate();
+    store.getState().updateState({
+      type: 'gameUpdate',
+      state: update.players[0].state as GameState,
+      position: 1,
+      currentPlayers: gameManager.players.currentPosition
+    });
+    expect(store.getState().gameManager.game.first('pool')!.all(Token).length).to.equal(3);
+    expect(store.getState().gameManager.possibleMoves).to.be.undefined;
+  });
+
+  it("renders for spectators", () => {
+    const store = getGameStore(starterGame);
+
+    const gameManager = store.getState().setup!({
+      players: times(2, p => ({ id: String(p), name: String(p), position: p, host: p === 1, color: '', avatar: '', tokens: 0 })),
+      settings: {tokens: 4},
+      randomSeed: 'rseed',
+    });
+    gameManager.play();
+    const update = gameManager.getUpdate();
+
+    store.getState().updateState({
+      type: 'gameUpdate',
+      state: update.spectator,
+      hash: hashState(update.spectator),
+      currentPlayers: gameManager.players.currentPosition
+    });
+    const state = store.getState();
+
+    expect(state.position).to.be.undefined;
+    expect(state.desync).to.be.undefined;
+    expect(state.rendered).not.to.be.undefined;
+    expect(state.gameManager.game.first('pool')!.all(Token).length).to.equal(4);
+    expect(state.pendingMoves).to.be.undefined;
+    expect(state.boardSelections).to.deep.equal({});
+  });
+
   it("continues compound place piece", () => {
     const store = getGameStore(starterGameWithTilesCompound);
 
@@ -297,12 +391,14 @@ function updateStore(store: ReturnType<typeof createGameStore>, players: number,
 
   gameManager.play();
 
-  let state = gameManager.getPlayerStates()[0].state;
+  const playerState = gameManager.getPlayerStates()[0];
+  let state = playerState.state;
   if (state instanceof Array) state = state[state.length - 1];
 
   updateState({
     type: 'gameUpdate',
     state,
+    hash: playerState.hash,
     position: 1,
     currentPlayers: gameManager.players.currentPosition
   });
@@ -5,6 +5,7 @@ import Setup from './setup/Setup.js';
 import Queue from './queue.js';
 
 import type { GameState } from '../interface.js';
+import type { StatePatch } from '../state-patch.js';
 import type { SetupComponentProps } from './setup/components/settingComponents.js';
 
 export type User = {
@@ -15,6 +16,7 @@ export type User = {
     color: string;
     position: number;
     ready: boolean;
+    team?: string;
     settings?: any;
     sessionURL?: string;
   };
@@ -42,15 +44,19 @@ export type SettingsUpdateEvent = {
 
 export type GameUpdateEvent = {
   type: "gameUpdate";
-  state: GameState | GameState[];
-  position: number;
+  state?: GameState | GameState[]; // may be omitted if patch is sent
+  patch?: StatePatch | StatePatch[];
+  hash?: string; // hash of the final state
+  position?: number; // omitted for spectators
   currentPlayers: number[];
 }
 
 export type GameFinishedEvent = {
   type: "gameFinished";
-  state: GameState | GameState[];
-  position: number;
+  state?: GameState | GameState[]; // may be omitted if patch is sent
+  patch?: StatePatch | StatePatch[];
+  hash?: string; // hash of the final state
+  position?: number; // omitted for spectators
   winners: number[];
 }
 
@@ -67,6 +73,7 @@ export type SeatOperation = {
   userID: string;
   color: string;
   name: string;
+  team?: string;
   settings?: any;
 }
 
@@ -81,6 +88,7 @@ export type UpdateOperation = {
   color?: string;
   name?: string;
   ready?: boolean;
+  team?: string;
   settings?: any;
 }
 
@@ -110,16 +118,36 @@ export type ReadyMessage = {
   type: 'ready';
 }
 
+// used to request the full state when updates cannot be applied
+export type RequestStateMessage = {
+  type: 'requestState';
+  id: string;
+}
+
+// used to report that the game built from a state does not match the server
+export type DesyncMessage = {
+  type: 'desync';
+  sequence: number;
+  differences: string[];
+}
+
+// used to take back the player's last move(s)
+export type UndoMessage = {
+  type: 'undo';
+  id: string;
+}
+
 export type SwitchPlayerMessage = {
   type: "switchPlayer";
   index: number;
 }
 
-export default ({ minPlayers, maxPlayers, defaultPlayers, setupComponents }: {
+export default ({ minPlayers, maxPlayers, defaultPlayers, setupComponents, teams }: {
   minPlayers: number,
   maxPlayers: number,
   defaultPlayers: number,
   setupComponents: Record<string, (p: SetupComponentProps) => JSX.Element>
+  teams?: string[]
 }) => {
   const [gameManager, updateState, setUserOnline, announcementIndex] = gameStore(s => [s.gameManager, s.updateState, s.setUserOnline, s.announcementIndex]);
   const [settings, setSettings] = useState<GameSettings>();
@@ -168,18 +196,27 @@ export default ({ minPlayers, maxPlayers, defaultPlayers, setupComponents }: {
     case 'gameUpdate':
     case 'gameFinished':
       {
-        if (data.state instanceof Array) {
+        if (data.patch) {
+          const patches = data.patch instanceof Array ? data.patch : [data.patch];
+          let delay = patches[0].from === gameManager.sequence;
+
+          for (let i = 0; i !== patches.length; i++) {
+            const patch = patches[i];
+            queue.schedule(() => updateState({...data, state: undefined, patch, hash: i === patches.length - 1 ? data.hash : undefined}, i !== patches.length - 1), delay);
+            delay = true;
+          }
+        } else if (data.state instanceof Array) {
           const states = data.state;
           let delay = data.state[0].sequence === gameManager.sequence + 1;
 
           for (let i = 0; i !== states.length; i++) {
             const state = states[i];
-            queue.schedule(() => updateState({...data, state}, i !== states.length - 1), delay);
+            queue.schedule(() => updateState({...data, state, patch: undefined, hash: i === states.length - 1 ? data.hash : undefined}, i !== states.length - 1), delay);
             delay = true;
           }
-        } else {
+        } else if (data.state) {
           let delay = data.state.sequence === gameManager.sequence + 1;
-          queue.schedule(() => updateState(data as typeof data & {state: typeof data.state}), delay); // TS needs help here...
+          queue.schedule(() => updateState({...data, state: data.state as GameState, patch: undefined}), delay);
         }
       }
       break;
@@ -225,6 +262,14 @@ export default ({ minPlayers, maxPlayers, defaultPlayers, setupComponents }: {
     window.top!.postMessage(message, "*");
   }, [])
 
+  const undo = useCallback(() => {
+    const message: UndoMessage = {
+      type: 'undo',
+      id: 'undo'
+    }
+    window.top!.postMessage(message, "*");
+  }, [])
+
   return (
     <>
       {gameManager.phase === 'new' && settings &&
@@ -233,6 +278,7 @@ export default ({ minPlayers, maxPlayers, defaultPlayers, setupComponents }: {
           minPlayers={minPlayers}
           maxPlayers={maxPlayers}
           setupComponents={setupComponents}
+          teams={teams}
           players={players}
           settings={settings}
           seatCount={seatCount}
@@ -240,7 +286,7 @@ export default ({ minPlayers, maxPlayers, defaultPlayers, setupComponents }: {
           onUpdateSettings={updateSettings}
         />
       }
-      {(gameManager.phase === 'started' || gameManager.phase === 'finished') && <Game/>}
+      {(gameManager.phase === 'started' || gameManager.phase === 'finished') && <Game onUndo={undo}/>}
     </>
   );
 }
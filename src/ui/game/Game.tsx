@@ -13,15 +13,16 @@ import type { UIMove } from '../lib.js';
 import type { Argument } from '../../action/action.js';
 import AnnouncementOverlay from './components/AnnouncementOverlay.js';
 
-export default () => {
+export default ({ onUndo }: {
+  onUndo: () => void
+}) => {
   const [gameManager, rendered, dev, position, pendingMoves, step, announcementIndex, dismissAnnouncement, selectMove, move, clearMove, selectElement, setBoardSize, dragElement, disambiguateElement, selected] = gameStore(s => [s.gameManager, s.rendered, s.dev, s.position, s.pendingMoves, s.step, s.announcementIndex, s.dismissAnnouncement, s.selectMove, s.move, s.clearMove, s.selectElement, s.setBoardSize, s.dragElement, s.aspectRatio, s.disambiguateElement, s.selected]);
   const clickAudio = useRef<HTMLAudioElement>(null);
   const [mode, setMode] = useState<'game' | 'info' | 'debug'>('game');
   const announcement = useMemo(() => gameManager.announcements[announcementIndex], [gameManager.announcements, announcementIndex]);
 
-  if (!position) return null;
-  const player = gameManager.players.atPosition(position);
-  if (!player) return null;
+  // without a position the game is shown read-only to a spectator
+  if (position && !gameManager.players.atPosition(position)) return null;
 
   const handleSubmitMove = useCallback((pendingMove?: UIMove, args?: Record<string, Argument>) => {
     if (move || disambiguateElement || selected) clickAudio.current?.play();
@@ -108,6 +109,7 @@ export default () => {
       className={classnames(
         globalThis.navigator?.userAgent.match(/Mobi/) ? 'mobile' : 'desktop',
         {
+          spectator: !position,
           'scaling-scroll': gameManager.game._ui.boardSize?.scaling === 'scroll',
           'browser-chrome': globalThis.navigator?.userAgent.indexOf('Chrome') > -1,
           'browser-safari': globalThis.navigator?.userAgent.indexOf('Chrome') === -1 && globalThis.navigator?.userAgent.indexOf('Safari') > -1,
@@ -118,7 +120,7 @@ export default () => {
       style={{
         ['--aspect-ratio' as string]: gameManager.game._ui.boardSize?.aspectRatio,
         ['--current-player-color' as string]: gameManager.players.currentPosition.length === 1 ? gameManager.players.current()?.color : '',
-        ['--my-player-color' as string]: gameManager.players.atPosition(position)?.color
+        ['--my-player-color' as string]: position ? gameManager.players.atPosition(position)?.color : ''
       }}
     >
       <audio ref={clickAudio} src={click} id="click"/>
@@ -159,6 +161,20 @@ export default () => {
               />
             </svg>
           </div>
+          {gameManager.undo?.position === position && (
+            <div id="undo-button" title="Undo">
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="-6 -6 112 112" onClick={onUndo}>
+                <path
+                  style={{stroke:'black', fill: 'white', strokeWidth: 8}}
+                  d="M 53.102,4 C 25.983,4 4,25.983 4,53.102 c 0,27.119 21.983,49.103 49.102,49.103 27.119,0 49.101,-21.984 49.101,-49.103 C 102.203,25.983 80.221,4 53.102,4 Z"
+                />
+                <path
+                  style={{stroke:'black', fill: 'none', strokeWidth: 9, strokeLinecap: 'round', strokeLinejoin: 'round'}}
+                  d="M 30,45 H 62 C 72,45 78,53 78,62 78,71 72,79 62,79 H 45 M 42,31 28,45 42,59"
+                />
+              </svg>
+            </div>
+          )}
           {dev && (
             <div id="debug-toggle">
               <svg
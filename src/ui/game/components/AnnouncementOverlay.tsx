@@ -1,5 +1,8 @@
 import React, { useEffect, useState } from 'react';
 import { gameStore } from '../../store.js';
+import classNames from 'classnames';
+
+const ordinal = (n: number) => n + (n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th');
 
 const AnnouncementOverlay = ({ announcement, onDismiss }: {
   announcement: string,
@@ -29,6 +32,20 @@ const AnnouncementOverlay = ({ announcement, onDismiss }: {
             )}
             {gameManager.winner.length === 0 && gameManager.players.length > 1 && <h2>Tie game</h2>}
             {gameManager.winner.length === 0 && gameManager.players.length === 1 && <h2 style={{color: "#800"}}>You lose</h2>}
+            {gameManager.ranking.length > 0 && (
+              <table className="scoreboard">
+                <tbody>
+                  {gameManager.ranking.map(({ player, place, score, summary }) => (
+                    <tr key={player.position} className={classNames({ winner: place === 1 })}>
+                      <td className="place">{ordinal(place)}</td>
+                      <td className="player-name" style={{color: player.color}}>{player.name}</td>
+                      {gameManager.ranking.some(r => r.score !== undefined) && <td className="score">{score}</td>}
+                      {gameManager.ranking.some(r => r.summary !== undefined) && <td className="summary">{summary}</td>}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
           </>
         )}
       </div>
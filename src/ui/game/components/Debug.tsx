@@ -51,11 +51,13 @@ const Debug = () => {
         <div id="action-breakdown">
           <b>Available Actions for {player.name}</b>
           <ul>
-            {Object.entries(actionDebug).map(([action, { impossible, args }]) => (
+            {Object.entries(actionDebug).map(([action, { impossible, limit, args, branches }]) => (
               <li className={`action-block ${impossible || Object.values(args).some(a => a === 'imp') ? 'impossible' : ''}`} key={action}>
                 <div>
                   <span className="name">{action === '__pass__' ? 'Implied pass' : action}</span>
-                  {impossible && <span> (Impossible by <code>action.condition</code>)</span>}
+                  {impossible && !limit && <span> (Impossible by <code>action.condition</code>)</span>}
+                  {limit && <span> (Limit of {limit} reached)</span>}
+                  {branches !== undefined && <span> ({branches} branches explored)</span>}
                 </div>
                 {action !== '__pass__' && !impossible && (
                   <ul>
@@ -7,17 +7,21 @@ import classNames from 'classnames';
 /**
  * Component for rendering a Player's name and avatar in their color. Also
  * capture online status and displays (as `className` `"online"`) and flashes
- * when the player is the current player (`className` `"current"`).
+ * when the player is the current player (`className` `"current"`). Shows the
+ * player's score and summary if the game defines scoring with {@link
+ * Game#defineScoring}.
  *
  * @category UI
  */
 export function ProfileBadge({player}: {player: Player}) {
-  const [userOnline] = gameStore(s => [s.userOnline]);
+  const [userOnline, gameManager] = gameStore(s => [s.userOnline, s.gameManager]);
   const online = userOnline.has(player.id)
+  const score = gameManager.scores[player.position];
   return (
-    <div className={classNames("profile-badge", {online, current: player.isCurrent()})} data-position={player.position} style={{backgroundColor: player.color}}>
+    <div className={classNames("profile-badge", {online, current: player.isCurrent()})} data-position={player.position} style={{backgroundColor: player.color}} title={score?.summary}>
       <div className="avatar"><img src={player.avatar} /></div>
       <div className="player-name">{player.name}</div>
+      {score?.score !== undefined && <div className="score">{score.score}</div>}
     </div>
   );
 }
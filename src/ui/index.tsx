@@ -75,6 +75,10 @@ export {
  * announcement. These can be called from {@link Game#announce} or {@link
  * Game#finish}.
  *
+ * @param options.teams - The names of the teams in this game, if played in
+ * teams. Players can be assigned to a team during setup, which becomes {@link
+ * Player#team}.
+ *
  * @param options.infoModals - A list of informational panels that appear in the
  * info sidebar. Each is an object with:
  * <ul>
@@ -94,8 +98,9 @@ export const render = <G extends Game>(setup: SetupFunction<G>, options: {
   layout?: (game: G, player: NonNullable<G['player']>, boardSize: string) => void,
   announcements?: Record<string, (game: G) => JSX.Element>
   infoModals?: {title: string, modal: (game: G) => JSX.Element}[]
+  teams?: string[]
 }): void => {
-  let { settings, boardSizes, layout, announcements, infoModals } = options;
+  let { settings, boardSizes, layout, announcements, infoModals, teams } = options;
   const state = gameStore.getState();
   const setupGame: SetupFunction<G> = state => {
     const gameManager = setup(state);
@@ -196,6 +201,7 @@ export const render = <G extends Game>(setup: SetupFunction<G>, options: {
       maxPlayers={maxPlayers}
       defaultPlayers={defaultPlayers}
       setupComponents={settings || {}}
+      teams={teams}
     />
   );
 };
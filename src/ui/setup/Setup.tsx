@@ -5,12 +5,13 @@ import { gameStore } from '../store.js';
 import type { SetupComponentProps } from './components/settingComponents.js';
 import type { User, UpdatePlayersMessage, GameSettings } from '../Main.js';
 
-export default ({ users, players, minPlayers, maxPlayers, setupComponents, settings, seatCount, onUpdatePlayers, onUpdateSettings }: {
+export default ({ users, players, minPlayers, maxPlayers, setupComponents, teams, settings, seatCount, onUpdatePlayers, onUpdateSettings }: {
   users: User[],
   players: User[],
   minPlayers: number,
   maxPlayers: number,
   setupComponents: Record<string, (p: SetupComponentProps) => JSX.Element>
+  teams?: string[],
   settings?: GameSettings,
   seatCount: number,
   onUpdatePlayers: (operations: UpdatePlayersMessage['operations']) => void,
@@ -51,6 +52,7 @@ export default ({ users, players, minPlayers, maxPlayers, setupComponents, setti
           players={players}
           minPlayers={minPlayers}
           maxPlayers={maxPlayers}
+          teams={teams}
           seatCount={seatCount}
           onUpdatePlayers={onUpdatePlayers}
           onUpdateSettings={onUpdateSettings}
@@ -8,11 +8,12 @@ const { GithubPicker } = ReactColor;
 
 import type { User, UpdateOperation, UpdatePlayersMessage, GameSettings } from '../../Main.js';
 
-const Seating = ({ users, players, minPlayers, maxPlayers, seatCount, onUpdatePlayers, onUpdateSettings }: {
+const Seating = ({ users, players, minPlayers, maxPlayers, teams, seatCount, onUpdatePlayers, onUpdateSettings }: {
   users: User[],
   players: User[],
   minPlayers: number,
   maxPlayers: number,
+  teams?: string[],
   seatCount: number,
   onUpdatePlayers: (operations: UpdatePlayersMessage['operations']) => void,
   onUpdateSettings: (update: {settings?: GameSettings, seatCount?: number}) => void,
@@ -82,6 +83,7 @@ const Seating = ({ users, players, minPlayers, maxPlayers, seatCount, onUpdatePl
               userID: player.id,
               color: player.playerDetails!.color,
               name: player.name,
+              team: player.playerDetails!.team,
               settings: player.playerDetails!.settings
             });
             operations.push({
@@ -109,6 +111,15 @@ const Seating = ({ users, players, minPlayers, maxPlayers, seatCount, onUpdatePl
     }
   }
 
+  const updateTeam = (userID: string, team: string) => {
+    const operation: UpdateOperation = {
+      type: "update",
+      userID,
+      team: team || undefined,
+    };
+    onUpdatePlayers([operation]);
+  }
+
   const updateName = (userID: string, name: string) => {
     setPickingColor(undefined);
     if (host || userID === userID) {
@@ -150,6 +161,17 @@ const Seating = ({ users, players, minPlayers, maxPlayers, seatCount, onUpdatePl
                 )}
               </select>
               <img className="avatar" draggable="false" src={player?.avatar}/>
+              {teams && player && (
+                <select
+                  className="team"
+                  value={player.playerDetails?.team ?? ""}
+                  onChange={e => updateTeam(player.id, e.target.value)}
+                  disabled={player.playerDetails?.ready || (!host && player.id !== userID)}
+                >
+                  <option value="">&lt; no team &gt;</option>
+                  {teams.map(team => <option key={team} value={team}>{team}</option>)}
+                </select>
+              )}
               {player?.playerDetails?.ready && (
                 <div className="ready">
                   <svg
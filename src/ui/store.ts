@@ -18,15 +18,18 @@ import {
   applyDiff,
   applyDOMKeys,
 } from './render.js';
+import { applyStatePatch } from '../state-patch.js';
+import { hashState, diffStates } from '../state-hash.js';
 
 import { ActionDebug } from '../game-manager.js'
-import type { GameUpdateEvent, GameFinishedEvent, User } from './Main.js'
+import type { GameUpdateEvent, GameFinishedEvent, RequestStateMessage, DesyncMessage, User } from './Main.js'
 import type { BaseGame } from '../board/game.js'
 import type { GameElement, Piece, PieceGrid } from '../board/index.js'
 import type Selection from '../action/selection.js'
 import type { Argument } from '../action/action.js'
 import type { SetupFunction } from '../game-creator.js'
 import type { GameState } from '../interface.js';
+import type { StatePatch } from '../state-patch.js';
 import type { ResolvedSelection } from '../action/selection.js';
 import type { UI, UIRender } from './render.js';
 
@@ -41,8 +44,10 @@ export type GameStore = {
   setSetup: (s: SetupFunction) => void;
   gameManager: GameManager;
   isMobile: boolean;
-  updateState: (state: (GameUpdateEvent | GameFinishedEvent) & {state: GameState}, readOnly?: boolean) => void;
-  position?: number; // this player
+  updateState: (state: (GameUpdateEvent | GameFinishedEvent) & ({state: GameState, patch?: undefined} | {state?: undefined, patch: StatePatch}), readOnly?: boolean) => void;
+  desync?: string[]; // differences found between the server's state and this copy of the game
+  gameState?: GameState; // the last state received, which any patch is applied to
+  position?: number; // this player, or undefined for a spectator, who cannot make moves
   move?: UIMove; // move in progress
   cancellable: boolean;
   selectMove: (move?: UIMove, args?: Record<string, Argument>) => void; // commit the choice and find new choices or process the choice
@@ -61,6 +66,7 @@ export type GameStore = {
   boardPrompt?: string; // prompt for choosing board action
   actionDescription?: string; // description of the current pending action
   otherPlayerAction?: string;
+  timeRemaining: Record<number, number>; // time in ms left for each current player with a time limit, as of the last update
   actionDebug?: ActionDebug;
   announcementIndex: number;
   dismissAnnouncement: () => void;
@@ -113,18 +119,32 @@ export const createGameStore = () => createWithEqualityFn<GameStore>()((set, get
   isMobile: !!globalThis.navigator?.userAgent.match(/Mobi/),
   updateState: (update, readOnly=false) => set(s => {
     let { gameManager } = s;
+    let gameState = update.state;
+    if (update.patch) {
+      if (s.gameState?.sequence !== update.patch.from) {
+        // missed an update, so patch cannot be applied
+        console.debug(`Received patch from state #${update.patch.from} but have state #${s.gameState?.sequence}. Requesting full state`);
+        const message: RequestStateMessage = { type: 'requestState', id: 'state' };
+        window.top!.postMessage(message, "*");
+        return s;
+      }
+      gameState = applyStatePatch(s.gameState, update.patch);
+    }
+    if (!gameState) return s;
+
     const position = s.position || update.position;
     window.clearTimeout(s.automove);
 
     let state: GameStore = {
       ...s,
+      gameState,
       position,
       move: undefined,
       prompt: undefined,
       boardPrompt: undefined,
       actionDescription: undefined,
       otherPlayerAction: undefined,
-      renderedSequence: update.state.sequence,
+      renderedSequence: gameState.sequence,
       announcementIndex: 0,
       step: undefined,
       boardSelections: {},
@@ -132,8 +152,8 @@ export const createGameStore = () => createWithEqualityFn<GameStore>()((set, get
       placement: undefined,
     };
 
-    if (s.setup && (gameManager.phase === 'new' || update.state.sequence !== s.renderedSequence + 1)) {
-      gameManager = state.gameManager = s.setup(update.state);
+    if (s.setup && (gameManager.phase === 'new' || gameState.sequence !== s.renderedSequence + 1)) {
+      gameManager = state.gameManager = s.setup(gameState);
       // @ts-ignore;
       window.game = gameManager.game;
       // @ts-ignore;
@@ -141,25 +161,57 @@ export const createGameStore = () => createWithEqualityFn<GameStore>()((set, get
       const boardSize = gameManager.game.getBoardSize(window.innerWidth, window.innerHeight, !!globalThis.navigator?.userAgent.match(/Mobi/))
       gameManager.game.setBoardSize(boardSize);
     } else {
-      gameManager.players.fromJSON(update.state.players);
-      gameManager.game.fromJSON(update.state.board);
-      gameManager.players.assignAttributesFromJSON(update.state.players);
-      gameManager.setFlowFromJSON(update.state.position);
+      gameManager.players.fromJSON(gameState.players);
+      gameManager.game.fromJSON(gameState.board);
+      gameManager.players.assignAttributesFromJSON(gameState.players);
+      gameManager.setEventsFromJSON(gameState.events ?? [], gameState.eventIndex);
+      gameManager.setRankingFromJSON(gameState.ranking ?? []);
+      gameManager.setEffectsFromJSON(gameState.effects ?? []);
+      gameManager.scores = gameState.scores ?? {};
+      gameManager.setFlowFromJSON(gameState.position);
+      gameManager.clocks = gameState.clocks ?? {};
+      gameManager.actionUses = gameState.actionUses ?? {};
+      gameManager.undo = gameState.undo;
+      gameManager.possibleMoves = undefined;
     }
-    gameManager.contextualizeBoardToPlayer(gameManager.game.players.atPosition(position));
+    gameManager.contextualizeBoardToPlayer(position ? gameManager.game.players.atPosition(position) : undefined);
     gameManager.phase = 'started';
-    gameManager.messages = update.state.messages;
-    gameManager.announcements = update.state.announcements;
+    gameManager.messages = gameState.messages;
+    gameManager.announcements = gameState.announcements;
     gameManager.winner = [];
+    gameManager.sequence = gameState.sequence;
+
+    if (update.hash) {
+      // check that both the state received and this copy of the game built from it match the server
+      state.desync = undefined;
+      if (hashState(gameState) !== update.hash) {
+        console.error(`State #${gameState.sequence} does not match the server. Requesting full state`);
+        const message: RequestStateMessage = { type: 'requestState', id: 'state' };
+        window.top!.postMessage(message, "*");
+      } else {
+        const hydrated = position ? gameManager.getState(gameManager.players.atPosition(position)) : gameManager.getSpectatorState();
+        if (hashState(hydrated) !== update.hash) {
+          state.desync = diffStates(gameState, hydrated);
+          console.error(`Game does not match the server at state #${gameState.sequence}:\n${state.desync.join('\n')}`);
+          const message: DesyncMessage = { type: 'desync', sequence: gameState.sequence, differences: state.desync };
+          window.top!.postMessage(message, "*");
+        }
+      }
+    }
 
     if (update.type === 'gameFinished') {
       gameManager.players.setCurrent([]);
       gameManager.phase = 'finished';
       gameManager.winner = update.winners.map(p => gameManager.players.atPosition(p)!);
     }
-    console.debug(`Game update for player #${position}. Current flow:\n ${gameManager.flow().stacktrace()}`);
+    state.timeRemaining = {};
+    for (const player of gameManager.players.allCurrent()) {
+      const time = gameManager.timeRemaining(player);
+      if (time !== undefined) state.timeRemaining[player.position] = time;
+    }
+    console.debug(`Game update for ${position ? `player #${position}` : 'spectator'}. Current flow:\n ${gameManager.flow().stacktrace()}`);
     const rendered = applyLayouts(gameManager.game);
-    if (update.state.sequence === s.renderedSequence + 1 && state.rendered) applyDiff(rendered.game, rendered, state.rendered);
+    if (gameState.sequence === s.renderedSequence + 1 && state.rendered) applyDiff(rendered.game, rendered, state.rendered);
     state.rendered = rendered;
     gameManager.game.resetRefTracking();
 
@@ -167,7 +219,7 @@ export const createGameStore = () => createWithEqualityFn<GameStore>()((set, get
       state = updateSelections(state)
     }
 
-    s.gameManager.sequence = update.state.sequence;
+    s.gameManager.sequence = gameState.sequence;
 
     return state;
   }),
@@ -202,6 +254,7 @@ export const createGameStore = () => createWithEqualityFn<GameStore>()((set, get
   }),
 
   cancellable: false,
+  timeRemaining: {},
   clearMove: () => set(clearMove()),
   uncommittedArgs: {},
   setError: error => set({ error }),